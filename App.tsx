@@ -23,8 +23,8 @@ import SpeedResultScreen from './src/screens/SpeedResultScreen';
 export type DetectStackParamList = {
   DetectRoot: undefined;
   Trim: { sourceUri: string; duration: number };
-  Calibration: { sourceUri: string; duration: number; startSec: number; endSec: number };
-  Analyze: { sourceUri: string; startSec: number; endSec: number; metersPerPixel: number };
+  Calibration: { sourceUri: string; duration: number; startSec: number; endSec: number; mode?: 'single' | 'rally' };
+  Analyze: { sourceUri: string; startSec: number; endSec: number; metersPerPixel: number; calibrationPx?: number; homography?: number[]; calibrationPreset?: string; referenceLengthM?: number | null; depth?: { a: number; b: number; anchorRow: number | null }; horizonDeg?: number; mode?: 'single' | 'rally' };
   SpeedResult: { maxKph: number; angle: number; videoUri: string; startSec: number; endSec: number };
 };
 
@@ -12,6 +12,8 @@ import com.facebook.react.modules.core.DeviceEventManagerModule
 import java.io.ByteArrayOutputStream
 import java.nio.FloatBuffer
 import java.lang.StringBuilder
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.atomic.AtomicBoolean
 
 class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(reactContext) {
@@ -39,6 +41,13 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
 
     private val DEBUG_TAG = "YOLO_DEBUG"
 
+    // Cancel flags of running jobs, keyed by the job id JS passes to detectVideo
+    private val jobs = ConcurrentHashMap<Int, AtomicBoolean>()
+
+    // A cancelled job can still be finishing a frame when the next one starts,
+    // and both use the shared model buffers above.
+    private val inferenceLock = Any()
+
     override fun getName() = "YoloDetector"
 
     // ---------------- ORT warmup ----------------
@@ -58,10 +67,89 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
         }
     }
 
+    // Class names from the Ultralytics "names" metadata, e.g. {0: 'shuttle', 1: 'racket'}.
+    // Resolves an empty map when the model has none; call after warmup.
+    @ReactMethod
+    fun getClassNames(promise: Promise) {
+        try {
+            val sess = session ?: throw IllegalStateException("Session not created")
+            val raw = sess.metadata.customMetadata["names"] ?: ""
+            val out = Arguments.createMap()
+            Regex("""(\d+)\s*:\s*['"]([^'"]*)['"]""").findAll(raw).forEach { m ->
+                out.putString(m.groupValues[1], m.groupValues[2])
+            }
+            promise.resolve(out)
+        } catch (e: Exception) {
+            promise.reject("metadata_error", e)
+        }
+    }
+
+    // Capture rate (com.android.capture.fps, set on slow-motion recordings) and the
+    // rate the file actually plays at. Either is null when the file does not say.
+    @ReactMethod
+    fun getVideoTiming(path: String, promise: Promise) {
+        val retriever = MediaMetadataRetriever()
+        try {
+            val uri = Uri.parse(path)
+            if (uri.scheme == "content" || uri.scheme == "file") {
+                retriever.setDataSource(reactContext, uri)
+            } else {
+                retriever.setDataSource(path)
+            }
+            val capRate = retriever.extractMetadata(MediaMetadataRetriever.METADATA_KEY_CAPTURE_FRAMERATE)?.toDoubleOrNull()
+            val frameCount = retriever.extractMetadata(MediaMetadataRetriever.METADATA_KEY_VIDEO_FRAME_COUNT)?.toIntOrNull()
+            val durationMs = retriever.extractMetadata(MediaMetadataRetriever.METADATA_KEY_DURATION)?.toLongOrNull()
+            val out = Arguments.createMap()
+            if (capRate != null && capRate > 0) out.putDouble("captureFps", capRate) else out.putNull("captureFps")
+            if (frameCount != null && durationMs != null && durationMs > 0) {
+                out.putDouble("playbackFps", frameCount * 1000.0 / durationMs)
+            } else {
+                out.putNull("playbackFps")
+            }
+            promise.resolve(out)
+        } catch (e: Exception) {
+            promise.reject("metadata_error", e)
+        } finally {
+            retriever.release()
+        }
+    }
+
     // ---------------- Detection ----------------
 
     @ReactMethod
-    fun detectVideo(path: String, fps: Int, startSec: Double, endSec: Double, promise: Promise) {
+    fun cancel(jobId: Int) {
+        jobs[jobId]?.set(true)
+    }
+
+    // Decoder settings, validated on the JS side (see validateDetectionOptions)
+    private data class DecodeOptions(
+        val confThresh: Float,
+        val iouThresh: Float,
+        val maxDetections: Int,
+        val classIds: Set<Int>?
+    )
+
+    private fun readDecodeOptions(options: ReadableMap?): DecodeOptions {
+        fun dbl(key: String, def: Double) =
+            if (options != null && options.hasKey(key) && !options.isNull(key)) options.getDouble(key) else def
+        val classIds = if (options != null && options.hasKey("classIds") && !options.isNull("classIds")) {
+            val arr = options.getArray("classIds")!!
+            (0 until arr.size()).map { arr.getInt(it) }.toSet()
+        } else null
+        return DecodeOptions(
+            confThresh = dbl("confThreshold", 0.15).toFloat(),
+            iouThresh = dbl("iouThreshold", 0.45).toFloat(),
+            maxDetections = dbl("maxDetections", 10.0).toInt().coerceAtLeast(1),
+            classIds = classIds
+        )
+    }
+
+    @ReactMethod
+    fun detectVideo(jobId: Int, path: String, startSec: Double, endSec: Double, options: ReadableMap?, promise: Promise) {
+        val fps = if (options != null && options.hasKey("fps") && !options.isNull("fps")) options.getDouble("fps").toInt() else 0
+        val decodeOptions = readDecodeOptions(options)
+        val cancelled = AtomicBoolean(false)
+        jobs[jobId] = cancelled
         Thread {
             var extractor: MediaExtractor? = null
             var codec: MediaCodec? = null
@@ -165,6 +253,10 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
 
                 // --- Decode loop ---
                 while (!outputDone) {
+                    if (cancelled.get()) {
+                        Log.d(DEBUG_TAG, "Detection $jobId cancelled.")
+                        break
+                    }
                     // Feed input
                     if (!inputDone) {
                         val inIndex = codec.dequeueInputBuffer(10000)
@@ -215,20 +307,23 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
                                             (if (trackRotation != 0) trackRotation else metaRotation)
                                         else 0
 
-                                    ensureLetterboxMatrixFor(bmp.width, bmp.height, rotationMaybe)
-
-                                    val chw = preprocessLetterbox640_reuse(
-                                        bmp,
-                                        dstBitmapCache!!,
-                                        pixelsCache!!,
-                                        floatCache!!,
-                                        sharedMatrix,
-                                        sharedPaint
-                                    )
-                                    val dets = runOrtDecodeNms(chw)
+                                    val dets = synchronized(inferenceLock) {
+                                        ensureLetterboxMatrixFor(bmp.width, bmp.height, rotationMaybe)
+
+                                        val chw = preprocessLetterbox640_reuse(
+                                            bmp,
+                                            dstBitmapCache!!,
+                                            pixelsCache!!,
+                                            floatCache!!,
+                                            sharedMatrix,
+                                            sharedPaint
+                                        )
+                                        runOrtDecodeNms(chw, decodeOptions)
+                                    }
                                     logDetections(bufferInfo.presentationTimeUs, dets)
 
                                     val item = Arguments.createMap().apply {
+                                        putInt("jobId", jobId)
                                         putDouble("t", bufferInfo.presentationTimeUs / 1000.0)
                                         putArray("boxes", detsToWritable(dets))
                                     }
@@ -251,14 +346,15 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
                     }
                 }
 
-                emitComplete()
+                if (cancelled.get()) emitCancelled(jobId) else emitComplete(jobId)
                 promise.resolve(null)
 
             } catch (e: Exception) {
                 Log.e(DEBUG_TAG, "Video processing error", e)
-                emitError(e.message ?: "Unknown video processing error")
+                emitError(jobId, e.message ?: "Unknown video processing error")
                 promise.reject("detect_error", e)
             } finally {
+                jobs.remove(jobId)
                 surface?.release()
                 imageReader?.close()
                 codec?.stop()
@@ -377,7 +473,7 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
         return out
     }
 
-    private fun runOrtDecodeNms(chw: FloatArray): List<WritableMap> {
+    private fun runOrtDecodeNms(chw: FloatArray, opts: DecodeOptions): List<WritableMap> {
         val envLocal = env ?: throw IllegalStateException("ORT not initialized")
         val sess = session ?: throw IllegalStateException("Session not created")
         val input = inputName ?: sess.inputNames.iterator().next()
@@ -412,8 +508,8 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
                     else -> error("Unexpected ONNX output type: ${raw?.javaClass}")
                 }
 
-                val confThresh = 0.15f
-                val iouThresh = 0.45f
+                val confThresh = opts.confThresh
+                val iouThresh = opts.iouThresh
                 val pre = mutableListOf<FloatArray>()
                 for (r in rows) {
                     if (r.size < 6) continue
@@ -427,6 +523,7 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
                         }
                     }
                     val conf = obj * bestProb
+                    if (opts.classIds != null && bestClass !in opts.classIds) continue
                     if (conf >= confThresh && r[2] > 0f && r[3] > 0f && conf.isFinite()) {
                         pre.add(floatArrayOf(r[0], r[1], r[2], r[3], conf, bestClass.toFloat()))
                     }
@@ -447,6 +544,7 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
 
                 val out = mutableListOf<WritableMap>()
                 for (i in pre.indices) {
+                    if (out.size >= opts.maxDetections) break
                     if (!active[i]) continue
                     val k = pre[i]
                     val map = Arguments.createMap().apply {
@@ -490,14 +588,25 @@ class YoloDetectorModule(private val reactContext: ReactApplicationContext) :
         }
     }
 
-    private fun emitComplete() {
+    private fun emitComplete(jobId: Int) {
+        val map = Arguments.createMap().apply { putInt("jobId", jobId) }
         reactContext
             .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
-            .emit("onDetectionComplete", null)
+            .emit("onDetectionComplete", map)
     }
 
-    private fun emitError(message: String) {
-        val map = Arguments.createMap().apply { putString("message", message) }
+    private fun emitCancelled(jobId: Int) {
+        val map = Arguments.createMap().apply { putInt("jobId", jobId) }
+        reactContext
+            .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+            .emit("onDetectionCancelled", map)
+    }
+
+    private fun emitError(jobId: Int, message: String) {
+        val map = Arguments.createMap().apply {
+            putInt("jobId", jobId)
+            putString("message", message)
+        }
         reactContext
             .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
             .emit("onDetectionError", map)
@@ -0,0 +1,143 @@
+// CourtPresetPicker.tsx
+// Standard badminton court distances for the calibration line, each with a small
+// diagram showing where the two handles go.
+import React from 'react';
+import { ScrollView, TouchableOpacity, View, Text, StyleSheet } from 'react-native';
+import Svg, { Rect, Line, Circle } from 'react-native-svg';
+
+// Points are in metres on a half court seen from above: x across from the left
+// doubles sideline, y back from the net. The net-post preset is drawn side-on.
+type CourtPoint = { x: number; y: number };
+
+export type CourtPreset = {
+  id: string;
+  label: string;
+  meters: number;
+  legacyMeters?: number; // length older versions used; saved results record the one they used
+  view: 'court' | 'net';
+  from: CourtPoint;
+  to: CourtPoint;
+  // Runs across the court (or straight up, for the net post), so its tilt in the
+  // image is the camera's roll. Lines along the court's depth are tilted by
+  // perspective instead and cannot be used as a horizon.
+  horizon?: boolean;
+};
+
+export const CUSTOM_PRESET_ID = 'custom';
+
+const HALF_LENGTH = 6.7;
+const DOUBLES_WIDTH = 6.1;
+const SINGLES_INSET = 0.46;
+const SHORT_SERVICE = 1.98;
+const DOUBLES_LONG_SERVICE = HALF_LENGTH - 0.76;
+const NET_POST_HEIGHT = 1.55;
+
+export const COURT_PRESETS: CourtPreset[] = [
+  // Older versions used 3.87 m here, which reads speeds about 2.3% low.
+  { id: 'service-to-long-service', label: 'Front service to doubles long service', meters: DOUBLES_LONG_SERVICE - SHORT_SERVICE, legacyMeters: 3.87, view: 'court', from: { x: 4.6, y: SHORT_SERVICE }, to: { x: 4.6, y: DOUBLES_LONG_SERVICE } },
+  { id: 'service-to-back', label: 'Front service to back boundary', meters: 4.72, view: 'court', from: { x: 4.6, y: SHORT_SERVICE }, to: { x: 4.6, y: HALF_LENGTH } },
+  { id: 'long-service-to-back', label: 'Doubles long service to back boundary', meters: 0.76, view: 'court', from: { x: 4.6, y: DOUBLES_LONG_SERVICE }, to: { x: 4.6, y: HALF_LENGTH } },
+  { id: 'net-to-service', label: 'Net to front service line', meters: SHORT_SERVICE, view: 'court', from: { x: 1.5, y: 0 }, to: { x: 1.5, y: SHORT_SERVICE } },
+  { id: 'net-to-back', label: 'Net to back boundary', meters: HALF_LENGTH, view: 'court', from: { x: 1.5, y: 0 }, to: { x: 1.5, y: HALF_LENGTH } },
+  { id: 'doubles-width', label: 'Doubles width', meters: DOUBLES_WIDTH, view: 'court', from: { x: 0, y: HALF_LENGTH }, to: { x: DOUBLES_WIDTH, y: HALF_LENGTH }, horizon: true },
+  { id: 'singles-width', label: 'Singles width', meters: 5.18, view: 'court', from: { x: SINGLES_INSET, y: HALF_LENGTH }, to: { x: DOUBLES_WIDTH - SINGLES_INSET, y: HALF_LENGTH }, horizon: true },
+  { id: 'net-post', label: 'Net post height', meters: NET_POST_HEIGHT, view: 'net', from: { x: 0, y: 0 }, to: { x: 0, y: NET_POST_HEIGHT }, horizon: true },
+];
+
+/** Whether a calibration line of this preset can level shot angles; custom lines cannot. */
+export function presetGivesHorizon(presetId: string): boolean {
+  return COURT_PRESETS.some(p => p.id === presetId && p.horizon);
+}
+
+export const DEFAULT_PRESET_ID = COURT_PRESETS[0].id;
+
+const DIAGRAM_SIZE = 56;
+const PAD = 4;
+const SCALE = (DIAGRAM_SIZE - PAD * 2) / HALF_LENGTH;
+const LINE_COLOR = '#8E8E93';
+const HIGHLIGHT = '#007AFF';
+
+export function CourtPresetDiagram({ preset }: { preset: CourtPreset }) {
+  if (preset.view === 'net') {
+    // Side view: the post from the floor to the top of the net.
+    const ground = DIAGRAM_SIZE - PAD * 2;
+    const postX = DIAGRAM_SIZE / 2 - 12;
+    const top = ground - NET_POST_HEIGHT * SCALE * 2;
+    return (
+      <Svg width={DIAGRAM_SIZE} height={DIAGRAM_SIZE}>
+        <Line x1={PAD} y1={ground} x2={DIAGRAM_SIZE - PAD} y2={ground} stroke={LINE_COLOR} strokeWidth={1} />
+        <Rect x={postX} y={top} width={DIAGRAM_SIZE / 2 + 8} height={10} fill="none" stroke={LINE_COLOR} strokeWidth={1} />
+        <Line x1={postX} y1={top} x2={postX} y2={ground} stroke={HIGHLIGHT} strokeWidth={2} />
+        <Circle cx={postX} cy={top} r={2.5} fill={HIGHLIGHT} />
+        <Circle cx={postX} cy={ground} r={2.5} fill={HIGHLIGHT} />
+      </Svg>
+    );
+  }
+
+  const left = (DIAGRAM_SIZE - DOUBLES_WIDTH * SCALE) / 2;
+  const px = (p: CourtPoint) => ({ x: left + p.x * SCALE, y: PAD + p.y * SCALE });
+  const hLine = (y: number, key: string) => {
+    const a = px({ x: 0, y }), b = px({ x: DOUBLES_WIDTH, y });
+    return <Line key={key} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={LINE_COLOR} strokeWidth={0.75} />;
+  };
+  const vLine = (x: number, y0: number, key: string) => {
+    const a = px({ x, y: y0 }), b = px({ x, y: HALF_LENGTH });
+    return <Line key={key} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={LINE_COLOR} strokeWidth={0.75} />;
+  };
+  const a = px(preset.from), b = px(preset.to);
+
+  return (
+    <Svg width={DIAGRAM_SIZE} height={DIAGRAM_SIZE}>
+      <Rect x={left} y={PAD} width={DOUBLES_WIDTH * SCALE} height={HALF_LENGTH * SCALE} fill="none" stroke={LINE_COLOR} strokeWidth={1} />
+      {hLine(SHORT_SERVICE, 'short')}
+      {hLine(DOUBLES_LONG_SERVICE, 'long')}
+      {vLine(SINGLES_INSET, 0, 'singles-l')}
+      {vLine(DOUBLES_WIDTH - SINGLES_INSET, 0, 'singles-r')}
+      {vLine(DOUBLES_WIDTH / 2, SHORT_SERVICE, 'centre')}
+      <Line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={HIGHLIGHT} strokeWidth={2} />
+      <Circle cx={a.x} cy={a.y} r={2.5} fill={HIGHLIGHT} />
+      <Circle cx={b.x} cy={b.y} r={2.5} fill={HIGHLIGHT} />
+    </Svg>
+  );
+}
+
+type Props = {
+  selectedId: string;
+  onSelect: (preset: CourtPreset | null) => void; // null selects custom entry
+};
+
+export default function CourtPresetPicker({ selectedId, onSelect }: Props) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      {COURT_PRESETS.map(p => (
+        <TouchableOpacity key={p.id} style={[styles.card, selectedId === p.id && styles.cardActive]} onPress={() => onSelect(p)}>
+          <CourtPresetDiagram preset={p} />
+          <Text style={styles.label} numberOfLines={2}>{p.label}</Text>
+          <Text style={styles.value}>{p.meters.toFixed(2)} m</Text>
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity style={[styles.card, styles.customCard, selectedId === CUSTOM_PRESET_ID && styles.cardActive]} onPress={() => onSelect(null)}>
+        <Text style={styles.customIcon}>✎</Text>
+        <Text style={styles.label}>Custom</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { gap: 8, paddingVertical: 2 },
+  card: {
+    width: 96,
+    alignItems: 'center',
+    padding: 6,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: 'transparent',
+    backgroundColor: 'rgba(118, 118, 128, 0.12)',
+  },
+  cardActive: { borderColor: '#007AFF', backgroundColor: 'rgba(0, 122, 255, 0.08)' },
+  customCard: { justifyContent: 'center' },
+  customIcon: { fontSize: 28, color: '#007AFF', marginBottom: 4 },
+  label: { fontSize: 11, color: '#3c3c43', textAlign: 'center', marginTop: 2 },
+  value: { fontSize: 13, fontWeight: '600', color: '#000', marginTop: 2 },
+});
@@ -0,0 +1,35 @@
+// FrameMarkers.tsx
+// Thin tick marks laid over a frame slider to flag individual frames.
+import React from 'react';
+import { View, StyleSheet, Platform, StyleProp, ViewStyle } from 'react-native';
+
+export type FrameMarker = { index: number; color: string };
+
+type Props = {
+  count: number;              // number of frames the slider spans
+  markers: FrameMarker[];
+  inset?: number;             // horizontal distance from the slider edge to the first thumb position
+  style?: StyleProp<ViewStyle>;
+};
+
+// Distance from the slider's edge to the thumb centre at either end.
+const DEFAULT_INSET = Platform.OS === 'ios' ? 14 : 16;
+
+export default function FrameMarkers({ count, markers, inset = DEFAULT_INSET, style }: Props) {
+  if (count < 2 || markers.length === 0) return null;
+  return (
+    <View pointerEvents="none" style={[styles.track, { left: inset, right: inset }, style]}>
+      {markers.map(m => (
+        <View
+          key={`${m.index}-${m.color}`}
+          style={[styles.tick, { left: `${(m.index / (count - 1)) * 100}%`, backgroundColor: m.color }]}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  track: { position: 'absolute', bottom: 2, height: 8 },
+  tick: { position: 'absolute', width: 3, height: 8, marginLeft: -1.5, borderRadius: 1.5 },
+});
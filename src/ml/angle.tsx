@@ -0,0 +1,67 @@
+// src/ml/angle.tsx
+// Descent angle of a shot: the direction of a line fitted through several
+// frames after contact, measured from the calibration line as the horizon and
+// independent of which way across the frame the shot travels.
+import type { TrackPoint } from './kalman';
+import { lineVelocity } from './contact';
+
+export type ShotKind = 'smash' | 'drive' | 'clear';
+
+export type ShotAngle = {
+  degrees: number;      // positive below the horizon, negative above it
+  kind: ShotKind;
+  leftToRight: boolean; // direction of travel across the frame
+  frames: number;       // frames in the fit
+};
+
+export type ShotAngleOptions = {
+  frames?: number;         // valid frames fitted from fromIndex on
+  maxGapSec?: number;
+  horizonDeg?: number;     // image angle of the horizon, from calibration
+  driveBandDeg?: number;   // within ±this of the horizon a shot counts as a drive
+  skip?: boolean[];        // frames to leave out of the fit (e.g. outliers)
+};
+
+/**
+ * Image angle of a calibration line as a horizon in (-45°, 45°]. A line drawn
+ * closer to vertical (e.g. a net post) is taken as perpendicular to it.
+ */
+export function horizonFromLine(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  let deg = Math.atan2(b.y - a.y, b.x - a.x) * (180 / Math.PI);
+  while (deg > 90) deg -= 180;
+  while (deg <= -90) deg += 180;
+  if (deg > 45) deg -= 90;
+  else if (deg <= -45) deg += 90;
+  return deg;
+}
+
+export function shotAngle(track: TrackPoint[], fromIndex: number, opts: ShotAngleOptions = {}): ShotAngle | null {
+  const { frames = 5, maxGapSec = 0.5, horizonDeg = 0, driveBandDeg = 10, skip } = opts;
+  const pts: { x: number; y: number; tSec: number }[] = [];
+  for (let i = Math.max(0, fromIndex); i < track.length && pts.length < frames; i++) {
+    const p = track[i];
+    if (!p || skip?.[i]) continue;
+    if (pts.length && p.tSec - pts[pts.length - 1].tSec > maxGapSec) break;
+    pts.push(p);
+  }
+  if (pts.length < 3) return null;
+  const v = lineVelocity(pts);
+  if (!v || (v.vx === 0 && v.vy === 0)) return null;
+
+  // Rotate into horizon axes; image y points down, so positive y is descent.
+  const h = horizonDeg * (Math.PI / 180);
+  const along = v.vx * Math.cos(h) + v.vy * Math.sin(h);
+  const down = -v.vx * Math.sin(h) + v.vy * Math.cos(h);
+  const degrees = Math.atan2(down, Math.abs(along)) * (180 / Math.PI);
+  const kind: ShotKind = degrees > driveBandDeg ? 'smash' : degrees < -driveBandDeg ? 'clear' : 'drive';
+  return { degrees, kind, leftToRight: along >= 0, frames: pts.length };
+}
+
+export const SHOT_KIND_LABELS: Record<ShotKind, string> = { smash: 'Smash', drive: 'Drive', clear: 'Clear' };
+
+/** e.g. "14° down" or "22° up"; drives near level read "level". */
+export function formatShotAngle(degrees: number): string {
+  const rounded = Math.round(degrees);
+  if (rounded === 0) return 'level';
+  return `${Math.abs(rounded)}° ${rounded > 0 ? 'down' : 'up'}`;
+}
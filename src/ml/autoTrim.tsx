@@ -0,0 +1,87 @@
+// src/ml/autoTrim.tsx
+// Finds likely smashes in a coarse detection pass over a whole video: bursts of
+// fast shuttle motion, each turned into a short trim window around its peak.
+import type { FrameDetections } from './detector';
+
+export type SmashCandidate = {
+  startSec: number;
+  endSec: number;
+  peakSec: number;
+  peakSpeed: number; // model frame widths per second
+  score: number;
+};
+
+export type AutoTrimOptions = {
+  durationSec: number;      // clip windows are clamped to [0, durationSec]
+  minSpeed?: number;        // frame widths per second counted as fast motion
+  maxPairGapSec?: number;   // speeds are not taken across longer detection gaps
+  burstGapSec?: number;     // fast samples closer than this belong to one burst
+  beforePeakSec?: number;   // window starts this long before the peak
+  afterPeakSec?: number;    // and ends this long after it
+  maxCandidates?: number;
+  classIds?: number[];      // only these classes can be the shuttle; all when omitted
+};
+
+const MODEL_SIZE = 640;
+
+type Sample = { tSec: number; speed: number; confidence: number };
+
+/**
+ * Boxes are compared in model space, which is a uniform scale of the video, so
+ * speeds are in model frame widths per second and need no video dimensions.
+ * The most confident box of a shuttle class stands in for the shuttle on each frame.
+ */
+export function findSmashCandidates(frames: FrameDetections[], opts: AutoTrimOptions): SmashCandidate[] {
+  const {
+    durationSec,
+    minSpeed = 1.5,
+    maxPairGapSec = 0.25,
+    burstGapSec = 0.3,
+    beforePeakSec = 0.2,
+    afterPeakSec = 0.3,
+    maxCandidates = 5,
+    classIds,
+  } = opts;
+
+  const points = [...frames]
+    .sort((a, b) => a.t - b.t)
+    .flatMap(f => {
+      const boxes = classIds ? f.boxes.filter(b => classIds.includes(b.classId)) : f.boxes;
+      if (!boxes.length) return [];
+      const b = boxes.reduce((best, cur) => (cur.confidence > best.confidence ? cur : best));
+      return [{ tSec: f.t / 1000, x: b.x + b.width / 2, y: b.y + b.height / 2, confidence: b.confidence }];
+    });
+
+  const fast: Sample[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const p = points[i - 1], c = points[i];
+    const dt = c.tSec - p.tSec;
+    if (!(dt > 0) || dt > maxPairGapSec) continue;
+    const speed = Math.hypot(c.x - p.x, c.y - p.y) / MODEL_SIZE / dt;
+    if (speed >= minSpeed) {
+      fast.push({ tSec: (p.tSec + c.tSec) / 2, speed, confidence: Math.min(p.confidence, c.confidence) });
+    }
+  }
+
+  const bursts: Sample[][] = [];
+  for (const s of fast) {
+    const last = bursts[bursts.length - 1];
+    if (last && s.tSec - last[last.length - 1].tSec <= burstGapSec) last.push(s);
+    else bursts.push([s]);
+  }
+
+  const windowLen = beforePeakSec + afterPeakSec;
+  return bursts
+    .map(burst => {
+      const peak = burst.reduce((best, cur) => (cur.speed > best.speed ? cur : best));
+      const meanConf = burst.reduce((a, s) => a + s.confidence, 0) / burst.length;
+      // A lone fast pair is often a detection jumping between objects.
+      const support = Math.min(1, burst.length / 3);
+      let startSec = Math.max(0, peak.tSec - beforePeakSec);
+      const endSec = Math.min(durationSec, startSec + windowLen);
+      startSec = Math.max(0, endSec - windowLen);
+      return { startSec, endSec, peakSec: peak.tSec, peakSpeed: peak.speed, score: peak.speed * meanConf * support };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxCandidates);
+}
@@ -0,0 +1,162 @@
+// src/ml/calibration.tsx
+// Turns calibration handles (in video pixels) into a scale or court homography,
+// and stores named profiles so a fixed camera only has to be calibrated once.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { solveHomography, homographyScale, isConvexQuad, Homography, Point } from './homography';
+import { fitDepthModel, DepthModel } from './depth';
+import { horizonFromLine } from './angle';
+
+export type CalibrationMode = 'line' | 'court';
+export type DepthMode = 'off' | 'line' | 'player';
+
+export type Calibration = {
+  metersPerPixel: number;
+  calibrationPx: number;
+  homography?: Homography;
+  calibrationPreset: string;       // court preset id, 'custom', or 'court-corners'
+  referenceLengthM: number | null; // null for court corners, which use a width and a depth
+  depth?: DepthModel;              // line mode with a second reference at another depth
+  horizonDeg?: number;             // camera roll from a level reference line, used as level for shot angles
+};
+
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  mode: CalibrationMode;
+  points: Point[];          // handle positions in video pixels: 2 for a line, 4 for court corners
+  videoWidth: number;
+  videoHeight: number;
+  presetId: string;         // line mode only
+  referenceLengthM: number; // line length, or court depth in court mode
+  courtWidthM: number | null;
+  depthMode?: DepthMode;        // line mode only; missing on profiles saved before depth correction
+  depthLengthM?: number | null; // second line length or player height, with a depth mode
+  skipWhenMatching: boolean; // go straight to analysis for clips of the same resolution
+  createdAt: number;
+};
+
+const PROFILES_KEY = 'calibrationProfiles';
+
+/**
+ * Scale from two points a known distance apart. Throws if they coincide. The
+ * line sets the horizon only when `horizon` says it runs across the court or
+ * upright; otherwise the image is taken as level.
+ */
+export function lineCalibration(points: Point[], referenceLengthM: number, presetId: string, horizon = false): Calibration {
+  const [a, b] = points;
+  const pixelDistance = Math.hypot(b.x - a.x, b.y - a.y);
+  if (!(pixelDistance > 0)) throw new Error('Please move handles to two distinct points.');
+  return {
+    metersPerPixel: referenceLengthM / pixelDistance,
+    calibrationPx: pixelDistance,
+    calibrationPreset: presetId,
+    referenceLengthM,
+    horizonDeg: horizon ? horizonFromLine(a, b) : 0,
+  };
+}
+
+/**
+ * Homography from four corners of a widthM x depthM rectangle, given in order
+ * around it with the first two spanning the width. Throws if they do not form
+ * a usable quadrilateral.
+ */
+export function courtCalibration(points: Point[], widthM: number, depthM: number): Calibration {
+  if (!isConvexQuad(points)) {
+    throw new Error('Place the four handles on the corners in order around the rectangle, without crossing sides.');
+  }
+  const homography = solveHomography(points, [
+    { x: 0, y: 0 },
+    { x: widthM, y: 0 },
+    { x: widthM, y: depthM },
+    { x: 0, y: depthM },
+  ]);
+  if (!homography) throw new Error('These corners do not form a usable rectangle. Please adjust them.');
+
+  // The scale at the middle of the rectangle stands in wherever one number is needed.
+  const centroid = {
+    x: points.reduce((a, p) => a + p.x, 0) / 4,
+    y: points.reduce((a, p) => a + p.y, 0) / 4,
+  };
+  const calibrationPx = Math.min(...points.map((p, i) => Math.hypot(points[(i + 1) % 4].x - p.x, points[(i + 1) % 4].y - p.y)));
+  return {
+    metersPerPixel: homographyScale(homography, centroid),
+    calibrationPx,
+    homography,
+    calibrationPreset: 'court-corners',
+    referenceLengthM: null,
+    horizonDeg: horizonFromLine(points[0], points[1]),
+  };
+}
+
+/**
+ * Adds depth correction to a line calibration from handles 3 and 4: either a
+ * second floor line lengthM long, or the player's feet and head for a player
+ * lengthM tall. The player's feet also anchor where the shuttle is at contact.
+ */
+export function withDepthReference(c: Calibration, points: Point[], mode: Exclude<DepthMode, 'off'>, lengthM: number): Calibration {
+  const [a, b, p, q] = points;
+  const pixelLength = Math.hypot(q.x - p.x, q.y - p.y);
+  if (!(pixelLength > 0)) throw new Error('Please move the depth reference handles to two distinct points.');
+  const main = { row: (a.y + b.y) / 2, metersPerPixel: c.metersPerPixel };
+  const second = {
+    row: mode === 'player' ? p.y : (p.y + q.y) / 2,
+    metersPerPixel: lengthM / pixelLength,
+  };
+  return { ...c, depth: fitDepthModel(main, second, mode === 'player' ? p.y : null) };
+}
+
+export function calibrationFromProfile(p: CalibrationProfile, horizon = false): Calibration {
+  if (p.mode === 'court') return courtCalibration(p.points, p.courtWidthM ?? 0, p.referenceLengthM);
+  const calibration = lineCalibration(p.points, p.referenceLengthM, p.presetId, horizon);
+  return p.depthMode && p.depthMode !== 'off' && p.depthLengthM && p.points.length >= 4
+    ? withDepthReference(calibration, p.points, p.depthMode, p.depthLengthM)
+    : calibration;
+}
+
+export async function loadCalibrationProfiles(): Promise<CalibrationProfile[]> {
+  try {
+    const raw = await AsyncStorage.getItem(PROFILES_KEY);
+    const list = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? list : [];
+  } catch (e) {
+    console.warn('Calibration profiles unreadable', e);
+    return [];
+  }
+}
+
+async function writeProfiles(list: CalibrationProfile[]) {
+  await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(list));
+}
+
+/**
+ * Adds the profile, replacing one with the same name. Only one profile per
+ * resolution may skip calibration, so a new one takes that over.
+ */
+export async function saveCalibrationProfile(
+  profile: Omit<CalibrationProfile, 'id' | 'createdAt'>,
+): Promise<CalibrationProfile[]> {
+  const saved: CalibrationProfile = { ...profile, id: `${Date.now()}`, createdAt: Date.now() };
+  const list = (await loadCalibrationProfiles())
+    .filter(p => p.name !== profile.name)
+    .map(p => (saved.skipWhenMatching && sameResolution(p, saved.videoWidth, saved.videoHeight)
+      ? { ...p, skipWhenMatching: false }
+      : p));
+  const next = [saved, ...list];
+  await writeProfiles(next);
+  return next;
+}
+
+export async function deleteCalibrationProfile(id: string): Promise<CalibrationProfile[]> {
+  const next = (await loadCalibrationProfiles()).filter(p => p.id !== id);
+  await writeProfiles(next);
+  return next;
+}
+
+export function sameResolution(p: CalibrationProfile, width: number, height: number) {
+  return p.videoWidth === width && p.videoHeight === height;
+}
+
+/** The profile that should replace calibration for a clip of this size, if any. */
+export function findSkipProfile(list: CalibrationProfile[], width: number, height: number) {
+  return list.find(p => p.skipWhenMatching && sameResolution(p, width, height)) ?? null;
+}
@@ -0,0 +1,109 @@
+// src/ml/contact.tsx
+// Racket-contact detection: the frame where the shuttle's direction and speed
+// change most sharply. Velocities are line fits over a few frames either side,
+// so a single jittery centre does not look like an impact.
+import type { TrackPoint } from './kalman';
+
+export type ContactOptions = {
+  span?: number;         // valid frames fitted on each side of a candidate
+  minScore?: number;     // weaker changes are not reported as contact
+  maxGapSec?: number;    // fits do not reach across longer gaps
+  minSpeedPxPerSec?: number; // ignore a shuttle that is barely moving afterwards
+};
+
+export type Contact = {
+  index: number;
+  score: number;
+  angleChangeDeg: number;
+  speedRatio: number;    // outgoing / incoming speed
+};
+
+export type Velocity = { vx: number; vy: number };
+
+/** Least-squares slope of x(t) and y(t); null for fewer than two distinct times. */
+export function lineVelocity(pts: { x: number; y: number; tSec: number }[]): Velocity | null {
+  if (pts.length < 2) return null;
+  const n = pts.length;
+  const mt = pts.reduce((a, p) => a + p.tSec, 0) / n;
+  const mx = pts.reduce((a, p) => a + p.x, 0) / n;
+  const my = pts.reduce((a, p) => a + p.y, 0) / n;
+  let stt = 0, stx = 0, sty = 0;
+  for (const p of pts) {
+    const dt = p.tSec - mt;
+    stt += dt * dt;
+    stx += dt * (p.x - mx);
+    sty += dt * (p.y - my);
+  }
+  return stt > 0 ? { vx: stx / stt, vy: sty / stt } : null;
+}
+
+/**
+ * Scores each frame by the turn between the velocity into it and out of it
+ * (0..1 for 0..180°) plus the log of the speed gain. The candidate frame
+ * itself belongs to both fits. Frames that cannot be scored are null.
+ */
+function scoreFrames(track: TrackPoint[], opts: ContactOptions): (Contact | null)[] {
+  const { span = 3, maxGapSec = 0.5, minSpeedPxPerSec = 50 } = opts;
+  const valid = track.map((p, i) => (p ? i : -1)).filter(i => i >= 0);
+  const out: (Contact | null)[] = new Array(track.length).fill(null);
+
+  for (let v = 1; v < valid.length - 1; v++) {
+    const before: number[] = [valid[v]];
+    for (let k = v - 1; k >= 0 && before.length <= span; k--) {
+      if (track[before[0]]!.tSec - track[valid[k]]!.tSec > maxGapSec) break;
+      before.unshift(valid[k]);
+    }
+    const after: number[] = [valid[v]];
+    for (let k = v + 1; k < valid.length && after.length <= span; k++) {
+      if (track[valid[k]]!.tSec - track[after[after.length - 1]]!.tSec > maxGapSec) break;
+      after.push(valid[k]);
+    }
+    if (before.length < 2 || after.length < 2) continue;
+
+    const vin = lineVelocity(before.map(i => track[i]!));
+    const vout = lineVelocity(after.map(i => track[i]!));
+    if (!vin || !vout) continue;
+    const sIn = Math.hypot(vin.vx, vin.vy);
+    const sOut = Math.hypot(vout.vx, vout.vy);
+    if (sOut < minSpeedPxPerSec) continue;
+
+    const cos = sIn > 0 ? (vin.vx * vout.vx + vin.vy * vout.vy) / (sIn * sOut) : 1;
+    const angle = Math.acos(Math.max(-1, Math.min(1, cos)));
+    const ratio = sOut / Math.max(sIn, 1e-6);
+    const score = angle / Math.PI + Math.max(0, Math.log(ratio));
+    out[valid[v]] = { index: valid[v], score, angleChangeDeg: angle * 180 / Math.PI, speedRatio: ratio };
+  }
+  return out;
+}
+
+/** The single strongest contact above minScore, for a clip holding one hit. */
+export function detectContact(track: TrackPoint[], opts: ContactOptions = {}): Contact | null {
+  const { minScore = 0.35 } = opts;
+  let best: Contact | null = null;
+  for (const c of scoreFrames(track, opts)) {
+    if (c && c.score >= minScore && (!best || c.score > best.score)) best = c;
+  }
+  return best;
+}
+
+/**
+ * Every hit in a longer clip: frames that turn the shuttle by at least
+ * minTurnDeg and are the strongest turn within minSeparation frames.
+ */
+export function detectContacts(
+  track: TrackPoint[],
+  opts: ContactOptions & { minTurnDeg?: number; minSeparation?: number } = {},
+): Contact[] {
+  const { minScore = 0.35, minTurnDeg = 90, minSeparation = 4 } = opts;
+  const scored = scoreFrames(track, opts);
+  const out: Contact[] = [];
+  scored.forEach((c, i) => {
+    if (!c || c.score < minScore || c.angleChangeDeg < minTurnDeg) return;
+    for (let k = Math.max(0, i - minSeparation); k <= Math.min(scored.length - 1, i + minSeparation); k++) {
+      const o = scored[k];
+      if (k !== i && o && (o.score > c.score || (o.score === c.score && k < i))) return;
+    }
+    out.push(c);
+  });
+  return out;
+}
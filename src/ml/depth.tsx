@@ -0,0 +1,84 @@
+// src/ml/depth.tsx
+// Depth correction for single-line calibration. Two references at different
+// depths give the scale as a function of image row; the shuttle track is then
+// rescaled to the depth of the shot instead of assuming it flies at the line's depth.
+import type { TrackPoint } from './kalman';
+
+export type DepthReference = { row: number; metersPerPixel: number }; // row in video pixels
+
+/**
+ * Pixels per metre on the floor grow linearly with image row for a level
+ * camera, so ppm(row) = a * row + b. anchorRow is the floor row of the player,
+ * where the shuttle is at contact; null when the player was not marked.
+ */
+export type DepthModel = { a: number; b: number; anchorRow: number | null };
+
+export type DepthCorrection = {
+  track: TrackPoint[];
+  factor: number; // metersPerPixel multiplier applied to the whole shot
+};
+
+const MIN_ROW_SEPARATION_PX = 5;
+
+export function fitDepthModel(r1: DepthReference, r2: DepthReference, anchorRow: number | null = null): DepthModel {
+  if (Math.abs(r1.row - r2.row) < MIN_ROW_SEPARATION_PX) {
+    throw new Error('The two references must be at different depths, i.e. at different heights in the frame.');
+  }
+  const p1 = 1 / r1.metersPerPixel;
+  const p2 = 1 / r2.metersPerPixel;
+  const a = (p2 - p1) / (r2.row - r1.row);
+  const b = p1 - a * r1.row;
+  if (!Number.isFinite(a) || !Number.isFinite(b)) throw new Error('Could not fit a depth model to these references.');
+  return { a, b, anchorRow };
+}
+
+export function metersPerPixelAtRow(model: DepthModel, row: number): number | null {
+  const ppm = model.a * row + model.b;
+  return ppm > 0 ? 1 / ppm : null;
+}
+
+// Apparent size of a shuttle: skirt diameter and length are both about 6.5 cm,
+// so the shorter side of its box stays close to this however it is turned.
+const SHUTTLE_SIZE_M = 0.065;
+
+/**
+ * Rescales the track to the shuttle's depth. The floor under a flying shuttle
+ * cannot be seen and its image row changes mostly with height, not depth, so
+ * one depth is used for the whole shot rather than one per frame:
+ * - player reference: the player's feet (anchorRow), where the shot is hit;
+ * - second line: the shuttle's apparent size (sizesPx, shorter box side in
+ *   video pixels), which shrinks with distance whatever the height. The result
+ *   is kept within the depths of the visible floor (rows 0..frameHeight).
+ * Null when there is nothing to take the depth from.
+ */
+export function depthCorrectTrack(
+  track: TrackPoint[],
+  model: DepthModel,
+  metersPerPixel: number,
+  opts: { sizesPx?: (number | null)[]; frameHeight?: number } = {},
+): DepthCorrection | null {
+  if (!(metersPerPixel > 0)) return null;
+  let mpp: number | null = null;
+  if (model.anchorRow != null) {
+    mpp = metersPerPixelAtRow(model, model.anchorRow);
+  } else {
+    const sizes = (opts.sizesPx ?? [])
+      .filter((s, i): s is number => track[i] != null && s != null && s > 0)
+      .sort((a, b) => a - b);
+    if (sizes.length) {
+      let ppm = sizes[Math.floor(sizes.length / 2)] / SHUTTLE_SIZE_M;
+      if (opts.frameHeight && opts.frameHeight > 0) {
+        const edges = [model.b, model.a * opts.frameHeight + model.b].filter(v => v > 0);
+        if (edges.length === 2) ppm = Math.max(Math.min(...edges), Math.min(ppm, Math.max(...edges)));
+        else if (edges.length === 1) ppm = Math.min(ppm, edges[0]); // far edge is past the horizon
+      }
+      mpp = 1 / ppm;
+    }
+  }
+  if (mpp == null || !Number.isFinite(mpp)) return null;
+  const factor = mpp / metersPerPixel;
+  return {
+    track: track.map(p => (p ? { x: p.x * factor, y: p.y * factor, tSec: p.tSec } : null)),
+    factor,
+  };
+}
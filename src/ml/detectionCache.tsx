@@ -0,0 +1,151 @@
+// src/ml/detectionCache.tsx
+// On-disk cache of detection runs, so returning to AnalyzeScreen with the same
+// clip, range and settings does not re-run the model. Least recently used
+// entries are evicted once the cache passes its size or entry limit.
+import * as FileSystem from 'expo-file-system';
+import { DetectionOptions, FrameDetections, toFrameDetections } from './detector';
+
+const CACHE_DIR = `${FileSystem.cacheDirectory}detections/`;
+const INDEX_FILE = `${CACHE_DIR}index.json`;
+const MAX_BYTES = 20 * 1024 * 1024;
+const MAX_ENTRIES = 50;
+// Bump when the stored frame format changes so old entries stop matching.
+const CACHE_VERSION = 2;
+
+export type DetectionCacheKey = {
+  videoPath: string;
+  startSec: number;
+  endSec: number;
+  options: DetectionOptions;
+  backend: string;
+};
+
+type IndexEntry = { key: string; file: string; bytes: number; lastUsed: number }; // bytes on disk
+type CacheIndex = Record<string, IndexEntry>;
+
+/** FNV-1a, 32 bit, as hex; only used to name files, the full key is checked on read. */
+function hash(str: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Identity of the source file: path plus size and modification time when the
+ * file system can report them (content:// URIs may not), so an edited or
+ * replaced file at the same path is not mistaken for the cached one.
+ */
+async function fileIdentity(uri: string) {
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (info.exists) return { path: uri, size: info.size, mtime: info.modificationTime };
+  } catch {
+    // Fall back to the path alone.
+  }
+  return { path: uri, size: null, mtime: null };
+}
+
+async function keyString(k: DetectionCacheKey) {
+  const id = await fileIdentity(k.videoPath);
+  return JSON.stringify({
+    version: CACHE_VERSION,
+    ...id,
+    startSec: Number(k.startSec.toFixed(3)),
+    endSec: Number(k.endSec.toFixed(3)),
+    options: k.options,
+    backend: k.backend,
+  });
+}
+
+async function readIndex(): Promise<CacheIndex> {
+  try {
+    const info = await FileSystem.getInfoAsync(INDEX_FILE);
+    if (!info.exists) return {};
+    return JSON.parse(await FileSystem.readAsStringAsync(INDEX_FILE));
+  } catch (e) {
+    console.warn('Detection cache index unreadable, starting fresh', e);
+    return {};
+  }
+}
+
+async function writeIndex(index: CacheIndex) {
+  await FileSystem.writeAsStringAsync(INDEX_FILE, JSON.stringify(index));
+}
+
+async function ensureDir() {
+  const info = await FileSystem.getInfoAsync(CACHE_DIR);
+  if (!info.exists) await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+}
+
+export async function getCachedDetections(k: DetectionCacheKey): Promise<FrameDetections[] | null> {
+  try {
+    const key = await keyString(k);
+    const index = await readIndex();
+    const entry = index[hash(key)];
+    if (!entry || entry.key !== key) return null;
+    // Entries from older builds or half-written files count as a miss.
+    const data: unknown = JSON.parse(await FileSystem.readAsStringAsync(CACHE_DIR + entry.file));
+    if (!Array.isArray(data)) return null;
+    const frames = data.map(f => toFrameDetections(f, true)).filter((f): f is FrameDetections => f != null);
+    if (frames.length !== data.length) return null;
+    entry.lastUsed = Date.now();
+    await writeIndex(index);
+    return frames;
+  } catch (e) {
+    console.warn('Detection cache read failed', e);
+    return null;
+  }
+}
+
+export async function putCachedDetections(k: DetectionCacheKey, frames: FrameDetections[]) {
+  try {
+    await ensureDir();
+    const key = await keyString(k);
+    const id = hash(key);
+    const file = `${id}.json`;
+    await FileSystem.writeAsStringAsync(CACHE_DIR + file, JSON.stringify(frames));
+    const info = await FileSystem.getInfoAsync(CACHE_DIR + file);
+    if (!info.exists) return;
+    if (info.size > MAX_BYTES) {
+      await FileSystem.deleteAsync(CACHE_DIR + file, { idempotent: true });
+      return;
+    }
+
+    const index = await readIndex();
+    index[id] = { key, file, bytes: info.size, lastUsed: Date.now() };
+
+    // LRU eviction down to the limits.
+    const entries = Object.entries(index).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    let total = entries.reduce((acc, [, e]) => acc + e.bytes, 0);
+    let count = entries.length;
+    for (const [eid, e] of entries) {
+      if (total <= MAX_BYTES && count <= MAX_ENTRIES) break;
+      if (eid === id) continue;
+      await FileSystem.deleteAsync(CACHE_DIR + e.file, { idempotent: true });
+      delete index[eid];
+      total -= e.bytes;
+      count--;
+    }
+    await writeIndex(index);
+  } catch (e) {
+    console.warn('Detection cache write failed', e);
+  }
+}
+
+export async function removeCachedDetections(k: DetectionCacheKey) {
+  try {
+    const key = await keyString(k);
+    const id = hash(key);
+    const index = await readIndex();
+    const entry = index[id];
+    if (!entry) return;
+    await FileSystem.deleteAsync(CACHE_DIR + entry.file, { idempotent: true });
+    delete index[id];
+    await writeIndex(index);
+  } catch (e) {
+    console.warn('Detection cache remove failed', e);
+  }
+}
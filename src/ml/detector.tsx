@@ -0,0 +1,170 @@
+// src/ml/detector.tsx
+// Detector backends and the registry that picks one at runtime.
+import type { Box } from './yolo';
+
+export type FrameDetections = { t: number; boxes: Box[] }; // t in ms of source video time
+
+export const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// A stored box, or null if a field is missing; boxes without a class are class 0.
+function toBox(b: unknown): Box | null {
+  if (!isRecord(b) || !isNumber(b.x) || !isNumber(b.y) || !isNumber(b.width) || !isNumber(b.height) || !isNumber(b.confidence)) {
+    return null;
+  }
+  const classId = isNumber(b.classId) && Number.isInteger(b.classId) ? b.classId : 0;
+  return { x: b.x, y: b.y, width: b.width, height: b.height, confidence: b.confidence, classId };
+}
+
+/**
+ * Checks parsed JSON against FrameDetections. Malformed boxes are dropped, or
+ * with `strict` the whole frame is rejected; null when the frame itself is malformed.
+ */
+export function toFrameDetections(f: unknown, strict = false): FrameDetections | null {
+  if (!isRecord(f) || !isNumber(f.t) || !Array.isArray(f.boxes)) return null;
+  const boxes = f.boxes.map(toBox);
+  if (strict && boxes.some(b => b == null)) return null;
+  return { t: f.t, boxes: boxes.filter((b): b is Box => b != null) };
+}
+
+/** Class id -> name, as stored in the model's metadata. */
+export type ClassNames = Record<number, string>;
+
+// Single-class shuttle models ship without a names table.
+export const DEFAULT_CLASS_NAMES: ClassNames = { 0: 'shuttle' };
+
+const SHUTTLE_NAMES = ['shuttle', 'shuttlecock', 'birdie'];
+
+/** Ids of the classes that are the shuttle; class 0 when no name matches. */
+export function shuttleClassIds(names: ClassNames): number[] {
+  const ids = Object.entries(names)
+    .filter(([, name]) => SHUTTLE_NAMES.includes(name.trim().toLowerCase()))
+    .map(([id]) => Number(id));
+  return ids.length ? ids : [0];
+}
+
+export type DetectionOptions = {
+  confThreshold: number;    // minimum obj * class score, 0..1
+  iouThreshold: number;     // NMS overlap, 0..1
+  maxDetections: number;    // boxes kept per frame after NMS
+  fps: number;              // sampling rate; 0 = every decoded frame at the native rate
+  classIds: number[] | null; // null = all classes
+};
+
+// Matches the thresholds the native decoder used to hard-code.
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  confThreshold: 0.15,
+  iouThreshold: 0.45,
+  maxDetections: 10,
+  fps: 0,
+  classIds: null,
+};
+
+/** Fills in defaults and checks ranges; throws with a user-facing message on bad input. */
+export function validateDetectionOptions(opts: Partial<DetectionOptions> = {}): DetectionOptions {
+  const o = { ...DEFAULT_DETECTION_OPTIONS, ...opts };
+  const inUnit = (v: number) => Number.isFinite(v) && v > 0 && v < 1;
+  if (!inUnit(o.confThreshold)) throw new Error('Confidence threshold must be between 0 and 1.');
+  if (!inUnit(o.iouThreshold)) throw new Error('NMS IoU threshold must be between 0 and 1.');
+  if (!Number.isInteger(o.maxDetections) || o.maxDetections < 1 || o.maxDetections > 100) {
+    throw new Error('Max detections per frame must be a whole number from 1 to 100.');
+  }
+  if (!Number.isFinite(o.fps) || o.fps < 0 || o.fps > 960) throw new Error('Target FPS must be between 0 (native) and 960.');
+  if (o.classIds != null) {
+    if (!o.classIds.length) throw new Error('Select at least one class, or allow all classes.');
+    if (o.classIds.some(c => !Number.isInteger(c) || c < 0)) throw new Error('Class IDs must be non-negative whole numbers.');
+  }
+  return { ...o, fps: Math.round(o.fps), classIds: o.classIds ? [...new Set(o.classIds)] : null };
+}
+
+export type DetectRequest = {
+  startSec: number;
+  endSec: number;
+  options: DetectionOptions;
+};
+
+export interface Detector {
+  readonly name: string;
+  /** False when the backend cannot run here (e.g. native module missing on this platform). */
+  isAvailable(): boolean;
+  warmup(): Promise<void>;
+  /** Names of the classes the model can emit; resolves after warmup. */
+  classNames(): Promise<ClassNames>;
+  /**
+   * One detection job. Frames arrive in decode order; the stream ends when the
+   * clip is done, and calling its return() cancels just that job.
+   */
+  detectVideo(path: string, req: DetectRequest): AsyncIterableIterator<FrameDetections>;
+  /** Cancels every job this backend is running. */
+  cancel(): void;
+}
+
+/**
+ * Push-based frame queue exposed as an async iterator, so event-driven
+ * backends can hand frames to `for await` consumers without dropping any.
+ * `onReturn` runs when the consumer stops the stream before it has ended.
+ */
+export function createFrameStream(onReturn?: () => void) {
+  const buffer: FrameDetections[] = [];
+  let pending: { resolve: (r: IteratorResult<FrameDetections>) => void; reject: (e: unknown) => void } | null = null;
+  let finished = false;
+  let failure: unknown = null;
+
+  const settle = () => {
+    if (!pending) return;
+    const p = pending;
+    if (buffer.length) { pending = null; p.resolve({ value: buffer.shift() as FrameDetections, done: false }); }
+    else if (failure != null) { pending = null; p.reject(failure); }
+    else if (finished) { pending = null; p.resolve({ value: undefined, done: true }); }
+  };
+
+  const stream: AsyncIterableIterator<FrameDetections> = {
+    next() {
+      if (buffer.length) return Promise.resolve({ value: buffer.shift() as FrameDetections, done: false });
+      if (failure != null) return Promise.reject(failure);
+      if (finished) return Promise.resolve({ value: undefined, done: true });
+      return new Promise((resolve, reject) => { pending = { resolve, reject }; });
+    },
+    return() {
+      const stopping = !finished;
+      finished = true;
+      buffer.length = 0;
+      settle();
+      if (stopping) onReturn?.();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() { return this; },
+  };
+
+  return {
+    stream,
+    push(frame: FrameDetections) { if (finished) return; buffer.push(frame); settle(); },
+    end() { finished = true; settle(); },
+    fail(e: unknown) { if (finished) return; failure = e ?? new Error('Detection failed'); settle(); },
+  };
+}
+
+// --- Registry ---
+const registry = new Map<string, Detector>();
+let preferred: string | null = null;
+
+/** Later registrations with the same name replace earlier ones. */
+export function registerDetector(detector: Detector) {
+  registry.set(detector.name, detector);
+}
+
+/** Force a backend by name (null = automatic: first available in registration order). */
+export function setPreferredDetector(name: string | null) {
+  preferred = name;
+}
+
+export function getDetector(): Detector {
+  if (preferred) {
+    const d = registry.get(preferred);
+    if (d?.isAvailable()) return d;
+  }
+  for (const d of registry.values()) {
+    if (d.isAvailable()) return d;
+  }
+  throw new Error('No detector backend is available on this device');
+}
@@ -0,0 +1,85 @@
+// src/ml/frameRate.tsx
+// Capture rate versus playback rate. A slow-motion clip recorded at 240 fps
+// that plays back at 30 fps has frame timestamps eight times too far apart, so
+// they are scaled back to real time before any speed is worked out. Also checks
+// the spacing of decoded frames for duplicates, drops and variable frame rate.
+
+export type VideoTiming = {
+  captureFps: number | null;  // rate the camera recorded at, from metadata or the user
+  playbackFps: number | null; // rate the file plays at
+};
+
+// Capture rates offered when the metadata has none; 0 = treat as real time.
+export const CAPTURE_FPS_CHOICES = [0, 60, 120, 240, 480, 960];
+// Playback rates offered when the file has none and frames were sampled; 0 = unknown.
+export const PLAYBACK_FPS_CHOICES = [0, 24, 25, 30, 60];
+
+// Below this capture/playback ratio the clip is taken to play in real time;
+// metadata rates are often a few percent off the nominal rate.
+const MIN_SLOW_MOTION_RATIO = 1.1;
+
+/** Real seconds per second of playback: 1 for normal clips, below 1 for slow motion. */
+export function realTimeScale(timing: VideoTiming): number {
+  const { captureFps, playbackFps } = timing;
+  if (!captureFps || !playbackFps || captureFps <= 0 || playbackFps <= 0) return 1;
+  const ratio = captureFps / playbackFps;
+  return ratio >= MIN_SLOW_MOTION_RATIO ? 1 / ratio : 1;
+}
+
+/** Frames per second from the median spacing of timestamps in ms; null with fewer than two. */
+export function medianFps(timesMs: number[]): number | null {
+  if (timesMs.length < 2) return null;
+  const deltas = timesMs.slice(1).map((t, i) => t - timesMs[i]).filter(d => d > 0).sort((a, b) => a - b);
+  if (!deltas.length) return null;
+  const fps = 1000 / deltas[Math.floor(deltas.length / 2)];
+  return Number.isFinite(fps) && fps > 1 ? fps : null;
+}
+
+// --- Timing integrity ---
+
+export type FrameTimingIssue = 'duplicate' | 'gap' | 'vfr';
+
+export type FrameTiming = {
+  nominalMs: number | null;             // median spacing between frames
+  issues: (FrameTimingIssue | null)[];  // issues[i] is the step from frame i - 1 to frame i
+  droppedBefore: number[];              // estimated frames missing before each frame
+  counts: Record<FrameTimingIssue, number>;
+};
+
+export type FrameTimingOptions = {
+  duplicateMs?: number;     // steps this short (or backwards) repeat the previous timestamp
+  gapFactor?: number;       // steps longer than this many nominal intervals have dropped frames
+  vfrTolerance?: number;    // relative deviation from nominal that counts as variable rate
+};
+
+/**
+ * Classifies every step between consecutive frame timestamps (ms). A duplicate
+ * carries no time, a gap means frames were dropped, and a vfr step is uneven
+ * without being long enough to hide a whole frame.
+ */
+export function analyzeFrameTiming(timesMs: number[], opts: FrameTimingOptions = {}): FrameTiming {
+  const { duplicateMs = 0.5, gapFactor = 1.5, vfrTolerance = 0.2 } = opts;
+  const fps = medianFps(timesMs);
+  const nominalMs = fps ? 1000 / fps : null;
+  const issues: (FrameTimingIssue | null)[] = timesMs.map(() => null);
+  const droppedBefore = timesMs.map(() => 0);
+  const counts: Record<FrameTimingIssue, number> = { duplicate: 0, gap: 0, vfr: 0 };
+
+  for (let i = 1; i < timesMs.length; i++) {
+    const d = timesMs[i] - timesMs[i - 1];
+    let issue: FrameTimingIssue | null = null;
+    if (d <= duplicateMs) {
+      issue = 'duplicate';
+    } else if (nominalMs != null && d > gapFactor * nominalMs) {
+      issue = 'gap';
+      droppedBefore[i] = Math.max(1, Math.round(d / nominalMs) - 1);
+    } else if (nominalMs != null && Math.abs(d - nominalMs) > vfrTolerance * nominalMs) {
+      issue = 'vfr';
+    }
+    if (issue) {
+      issues[i] = issue;
+      counts[issue]++;
+    }
+  }
+  return { nominalMs, issues, droppedBefore, counts };
+}
@@ -0,0 +1,86 @@
+// src/ml/homography.tsx
+// Planar homography from four point pairs, used to map video pixels onto the
+// court plane so distances do not depend on the camera's viewing angle.
+
+export type Point = { x: number; y: number };
+
+/** Row-major 3x3 matrix with h[8] = 1. */
+export type Homography = number[];
+
+/** Solves an n x (n+1) augmented system in place; null if singular. */
+function solve(A: number[][]): number[] | null {
+  const n = A.length;
+  for (let c = 0; c < n; c++) {
+    let piv = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(A[r][c]) > Math.abs(A[piv][c])) piv = r;
+    if (Math.abs(A[piv][c]) < 1e-12) return null;
+    [A[c], A[piv]] = [A[piv], A[c]];
+    for (let r = c + 1; r < n; r++) {
+      const f = A[r][c] / A[c][c];
+      for (let k = c; k <= n; k++) A[r][k] -= f * A[c][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let acc = A[r][n];
+    for (let k = r + 1; k < n; k++) acc -= A[r][k] * x[k];
+    x[r] = acc / A[r][r];
+  }
+  return x;
+}
+
+/**
+ * The homography taking each src point to the matching dst point. Null when
+ * three of the points are collinear and no unique solution exists.
+ */
+export function solveHomography(src: Point[], dst: Point[]): Homography | null {
+  if (src.length !== 4 || dst.length !== 4) throw new Error('A homography needs exactly four point pairs');
+  const A: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    A.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    A.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  }
+  const h = solve(A);
+  if (!h || !h.every(Number.isFinite)) return null;
+  return [...h, 1];
+}
+
+export function applyHomography(H: Homography, p: Point): Point {
+  const w = H[6] * p.x + H[7] * p.y + H[8];
+  return {
+    x: (H[0] * p.x + H[1] * p.y + H[2]) / w,
+    y: (H[3] * p.x + H[4] * p.y + H[5]) / w,
+  };
+}
+
+/**
+ * Local scale of the mapping at p: the square root of the Jacobian's
+ * determinant, i.e. destination units per source pixel averaged over direction.
+ */
+export function homographyScale(H: Homography, p: Point): number {
+  const w = H[6] * p.x + H[7] * p.y + H[8];
+  const u = H[0] * p.x + H[1] * p.y + H[2];
+  const v = H[3] * p.x + H[4] * p.y + H[5];
+  const w2 = w * w;
+  const dux = (H[0] * w - u * H[6]) / w2;
+  const duy = (H[1] * w - u * H[7]) / w2;
+  const dvx = (H[3] * w - v * H[6]) / w2;
+  const dvy = (H[4] * w - v * H[7]) / w2;
+  return Math.sqrt(Math.abs(dux * dvy - duy * dvx));
+}
+
+/** True for a convex quadrilateral with its corners given in order around it. */
+export function isConvexQuad(pts: Point[]): boolean {
+  if (pts.length !== 4) return false;
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = pts[i], b = pts[(i + 1) % 4], c = pts[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-9) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
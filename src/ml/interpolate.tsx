@@ -0,0 +1,146 @@
+// src/ml/interpolate.tsx
+// Fills frames without a box from the frames around them. Boxes are moved by
+// their centres against frame time, so uneven frame spacing is respected; sizes
+// are blended linearly. Optionally extends the track past the first and last
+// detection.
+
+export type InterpolationMode = 'linear' | 'spline' | 'decel';
+
+export const INTERPOLATION_MODE_LABELS: Record<InterpolationMode, string> = {
+  linear: 'Linear',
+  spline: 'Spline',
+  decel: 'Deceleration',
+};
+
+type Box = { x: number; y: number; width: number; height: number };
+type Vec = { x: number; y: number };
+type Key = { t: number; c: Vec; box: Box };
+
+export type InterpolationOptions = {
+  mode?: InterpolationMode;
+  extrapolate?: boolean;
+  maxExtrapolateFrames?: number;           // per end
+  bounds?: { width: number; height: number }; // extrapolation stops when the centre leaves these
+};
+
+const centre = (b: Box): Vec => ({ x: b.x + b.width / 2, y: b.y + b.height / 2 });
+const sub = (a: Vec, b: Vec): Vec => ({ x: a.x - b.x, y: a.y - b.y });
+const add = (a: Vec, b: Vec): Vec => ({ x: a.x + b.x, y: a.y + b.y });
+const scale = (a: Vec, s: number): Vec => ({ x: a.x * s, y: a.y * s });
+
+function boxAt(c: Vec, width: number, height: number): Box {
+  return { x: c.x - width / 2, y: c.y - height / 2, width, height };
+}
+
+// Velocity from key i towards its neighbours; one-sided at the ends.
+function tangent(keys: Key[], i: number): Vec {
+  const a = keys[Math.max(0, i - 1)];
+  const b = keys[Math.min(keys.length - 1, i + 1)];
+  const dt = b.t - a.t;
+  return dt > 0 ? scale(sub(b.c, a.c), 1 / dt) : { x: 0, y: 0 };
+}
+
+// Cubic Hermite between keys i and i + 1, with Catmull-Rom tangents for
+// unevenly spaced keys.
+function spline(keys: Key[], i: number, t: number): Vec {
+  const p0 = keys[i], p1 = keys[i + 1];
+  const h = p1.t - p0.t;
+  const s = (t - p0.t) / h;
+  const m0 = scale(tangent(keys, i), h), m1 = scale(tangent(keys, i + 1), h);
+  const h00 = 2 * s ** 3 - 3 * s ** 2 + 1, h10 = s ** 3 - 2 * s ** 2 + s;
+  const h01 = -2 * s ** 3 + 3 * s ** 2, h11 = s ** 3 - s ** 2;
+  return {
+    x: h00 * p0.c.x + h10 * m0.x + h01 * p1.c.x + h11 * m1.x,
+    y: h00 * p0.c.y + h10 * m0.y + h01 * p1.c.y + h11 * m1.y,
+  };
+}
+
+// Straight line from key i to i + 1, entering at the speed measured before key i
+// and slowing at a constant rate. The entry speed is kept between the average
+// over the gap (no deceleration) and twice it (coming to rest at the far key).
+function decel(keys: Key[], i: number, t: number): Vec {
+  const p0 = keys[i], p1 = keys[i + 1];
+  const T = p1.t - p0.t;
+  const d = sub(p1.c, p0.c);
+  const D = Math.hypot(d.x, d.y);
+  if (D === 0) return p0.c;
+  const prev = keys[i - 1];
+  const vIn = prev && p0.t > prev.t ? Math.hypot(p0.c.x - prev.c.x, p0.c.y - prev.c.y) / (p0.t - prev.t) : D / T;
+  const v0 = Math.max(D / T, Math.min(vIn, (2 * D) / T));
+  const a = (2 * (v0 * T - D)) / (T * T);
+  const tau = t - p0.t;
+  return add(p0.c, scale(d, (v0 * tau - 0.5 * a * tau * tau) / D));
+}
+
+// Motion past an end key, going back in time when dir is -1.
+function extrapolate(keys: Key[], mode: InterpolationMode, dir: 1 | -1, t: number): Vec {
+  const end = dir === 1 ? keys.length - 1 : 0;
+  const k = keys[end];
+  const v = tangent(keys, end);
+  const tau = t - k.t;
+  if (mode !== 'decel' || keys.length < 3) return add(k.c, scale(v, tau));
+
+  // Deceleration from how much the speed fell over the three keys at this end.
+  // Forward in time the shuttle keeps slowing and is held once it would come to
+  // rest; back in time it was moving faster, so the distance grows instead.
+  const a0 = keys[end - 2 * dir], a1 = keys[end - dir];
+  const s1 = Math.hypot(a1.c.x - a0.c.x, a1.c.y - a0.c.y) / Math.abs(a1.t - a0.t);
+  const s2 = Math.hypot(k.c.x - a1.c.x, k.c.y - a1.c.y) / Math.abs(k.t - a1.t);
+  const speed = Math.hypot(v.x, v.y);
+  if (!(speed > 0)) return k.c;
+  const dtMid = Math.abs(k.t - a0.t) / 2;
+  const earlier = dir === 1 ? s1 : s2, later = dir === 1 ? s2 : s1;
+  const a = dtMid > 0 && earlier > later ? (earlier - later) / dtMid : 0;
+  const along = Math.abs(tau);
+  let dist: number;
+  if (dir === 1) {
+    const u = Math.min(along, a > 0 ? speed / a : Infinity);
+    dist = speed * u - 0.5 * a * u * u;
+  } else {
+    dist = speed * along + 0.5 * a * along * along;
+  }
+  return add(k.c, scale(v, (Math.sign(tau) * dist) / speed));
+}
+
+/**
+ * Proposed boxes for the frames in `boxes` that are null, keyed by frame
+ * index. `times` are the frame times in seconds. Frames outside the first and
+ * last known box are only filled with `extrapolate`.
+ */
+export function proposeBoxes(times: number[], boxes: (Box | null)[], opts: InterpolationOptions = {}): Record<number, Box> {
+  const { mode = 'linear', extrapolate: extend = false, maxExtrapolateFrames = 5, bounds } = opts;
+  const keys: (Key & { index: number })[] = [];
+  boxes.forEach((b, index) => {
+    if (b && Number.isFinite(times[index])) keys.push({ index, t: times[index], c: centre(b), box: b });
+  });
+  const out: Record<number, Box> = {};
+  if (keys.length < 2) return out;
+
+  for (let k = 0; k < keys.length - 1; k++) {
+    const p0 = keys[k], p1 = keys[k + 1];
+    if (p1.index - p0.index < 2 || !(p1.t > p0.t)) continue;
+    for (let i = p0.index + 1; i < p1.index; i++) {
+      const t = times[i];
+      if (!Number.isFinite(t)) continue;
+      const s = Math.max(0, Math.min((t - p0.t) / (p1.t - p0.t), 1));
+      const c = mode === 'spline' ? spline(keys, k, t)
+        : mode === 'decel' ? decel(keys, k, t)
+        : add(p0.c, scale(sub(p1.c, p0.c), s));
+      out[i] = boxAt(c, p0.box.width + s * (p1.box.width - p0.box.width), p0.box.height + s * (p1.box.height - p0.box.height));
+    }
+  }
+
+  if (extend) {
+    const inside = (c: Vec) => !bounds || (c.x >= 0 && c.y >= 0 && c.x <= bounds.width && c.y <= bounds.height);
+    const ends: [Key & { index: number }, 1 | -1][] = [[keys[keys.length - 1], 1], [keys[0], -1]];
+    for (const [k, dir] of ends) {
+      for (let n = 1, i = k.index + dir; n <= maxExtrapolateFrames && i >= 0 && i < times.length; n++, i += dir) {
+        if (boxes[i] || !Number.isFinite(times[i])) break;
+        const c = extrapolate(keys, mode, dir, times[i]);
+        if (!inside(c)) break;
+        out[i] = boxAt(c, k.box.width, k.box.height);
+      }
+    }
+  }
+  return out;
+}
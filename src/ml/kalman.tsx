@@ -3,17 +3,15 @@
 
 export class Kalman2D {
   private x = new Float64Array(4); // [x, y, vx, vy]
-  private P = new Float64Array([
-    1, 0, 0, 0,
-    0, 1, 0, 0,
-    0, 0, 1000, 0,
-    0, 0, 0, 1000,
-  ]);
+  private P = new Float64Array(16);
   private inited = false;
 
   // q: process noise scale (bigger = smoother, slower to react)
   // r: measurement noise (bigger = trust measurements less)
-  constructor(private q: number = 5e-2, private r: number = 3.0) {}
+  // pVel: initial velocity variance; raise it for a diffuse prior when speeds are large
+  constructor(private q: number = 5e-2, private r: number = 3.0, private pVel: number = 1000) {
+    this.reset();
+  }
 
   reset() {
     this.inited = false;
@@ -21,8 +19,8 @@ export class Kalman2D {
     this.P.set([
       1, 0, 0, 0,
       0, 1, 0, 0,
-      0, 0, 1000, 0,
-      0, 0, 0, 1000,
+      0, 0, this.pVel, 0,
+      0, 0, 0, this.pVel,
     ]);
   }
 
@@ -112,6 +110,8 @@ export class Kalman2D {
   getPosition() { return { x: this.x[0], y: this.x[1] }; }
   getVelocityPxPerSec() { return Math.hypot(this.x[2], this.x[3]); }
   getState() { return { x: this.x[0], y: this.x[1], vx: this.x[2], vy: this.x[3] }; }
+  /** Copy of the 4x4 state covariance, row-major. */
+  getCovariance() { return Float64Array.from(this.P); }
 
   /** S = H P H^T + R for position measurement (2x2): [[P00+r, P01],[P10, P11+r]] */
   getInnovationCov(): [number, number, number, number] {
@@ -134,3 +134,198 @@ export class Kalman2D {
 export function pxPerSecToKph(pxPerSec: number, metersPerPixel: number) {
   return pxPerSec * metersPerPixel * 3.6;
 }
+
+export type TrackPoint = { x: number; y: number; tSec: number } | null;
+
+/**
+ * Runs a track through a fresh Kalman2D, stepping with the real time between
+ * measurements. Returns the filtered speed (px/s) at every index that has a
+ * measurement after the first one, null elsewhere.
+ * A gap longer than maxGapSec restarts the filter.
+ */
+export function kalmanSpeedsPxPerSec(
+  track: TrackPoint[],
+  q: number,
+  r: number,
+  maxGapSec: number = 0.5,
+): (number | null)[] {
+  const out: (number | null)[] = new Array(track.length).fill(null);
+  const kf = new Kalman2D(q, r);
+  let lastT: number | null = null;
+  for (let i = 0; i < track.length; i++) {
+    const p = track[i];
+    if (!p) continue;
+    if (lastT != null) {
+      const dt = p.tSec - lastT;
+      if (dt > maxGapSec) kf.reset();
+      else if (dt > 0) kf.predict(dt);
+    }
+    const hadInit = kf.hasInit();
+    kf.update(p.x, p.y);
+    if (hadInit) out[i] = kf.getVelocityPxPerSec();
+    lastT = p.tSec;
+  }
+  return out;
+}
+
+export type SmoothedState = {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  P: Float64Array; // 4x4 covariance, row-major
+};
+
+// --- 4x4 helpers for the smoother (row-major Float64Array) ---
+function mul4(a: Float64Array, b: Float64Array) {
+  const out = new Float64Array(16);
+  for (let i = 0; i < 4; i++)
+    for (let j = 0; j < 4; j++) {
+      let acc = 0;
+      for (let k = 0; k < 4; k++) acc += a[i*4+k] * b[k*4+j];
+      out[i*4+j] = acc;
+    }
+  return out;
+}
+
+function transpose4(a: Float64Array) {
+  const out = new Float64Array(16);
+  for (let i = 0; i < 4; i++) for (let j = 0; j < 4; j++) out[j*4+i] = a[i*4+j];
+  return out;
+}
+
+/** Gauss-Jordan inverse with partial pivoting; null if singular. */
+function inv4(a: Float64Array): Float64Array | null {
+  const m = Float64Array.from(a);
+  const inv = new Float64Array([1,0,0,0, 0,1,0,0, 0,0,1,0, 0,0,0,1]);
+  for (let c = 0; c < 4; c++) {
+    let piv = c;
+    for (let r = c + 1; r < 4; r++) if (Math.abs(m[r*4+c]) > Math.abs(m[piv*4+c])) piv = r;
+    const pv = m[piv*4+c];
+    if (!isFinite(pv) || Math.abs(pv) < 1e-12) return null;
+    if (piv !== c) {
+      for (let k = 0; k < 4; k++) {
+        [m[c*4+k], m[piv*4+k]] = [m[piv*4+k], m[c*4+k]];
+        [inv[c*4+k], inv[piv*4+k]] = [inv[piv*4+k], inv[c*4+k]];
+      }
+    }
+    for (let k = 0; k < 4; k++) { m[c*4+k] /= pv; inv[c*4+k] /= pv; }
+    for (let r = 0; r < 4; r++) {
+      if (r === c) continue;
+      const f = m[r*4+c];
+      if (f === 0) continue;
+      for (let k = 0; k < 4; k++) { m[r*4+k] -= f * m[c*4+k]; inv[r*4+k] -= f * inv[c*4+k]; }
+    }
+  }
+  return inv;
+}
+
+function transition(dt: number) {
+  return new Float64Array([
+    1, 0, dt, 0,
+    0, 1, 0, dt,
+    0, 0, 1, 0,
+    0, 0, 0, 1,
+  ]);
+}
+
+/**
+ * Fixed-interval Rauch–Tung–Striebel smoother. Runs Kalman2D forward over the
+ * whole track, then a backward pass so every frame is conditioned on all
+ * measurements, including the early frames the forward filter has not yet
+ * converged on. Returns one smoothed state per index between the first and
+ * last measurement of each run, null elsewhere. A gap longer than maxGapSec
+ * splits the track into independently smoothed runs.
+ */
+export function rtsSmooth(
+  track: TrackPoint[],
+  q: number,
+  r: number,
+  maxGapSec: number = 0.5,
+  pVel: number = 1e8,
+): (SmoothedState | null)[] {
+  const out: (SmoothedState | null)[] = new Array(track.length).fill(null);
+
+  // Split into runs of measured indices separated by long gaps.
+  const runs: number[][] = [];
+  let run: number[] = [];
+  let lastT: number | null = null;
+  for (let i = 0; i < track.length; i++) {
+    const p = track[i];
+    if (!p) continue;
+    if (lastT != null && p.tSec - lastT > maxGapSec) { runs.push(run); run = []; }
+    run.push(i);
+    lastT = p.tSec;
+  }
+  if (run.length) runs.push(run);
+
+  for (const idxs of runs) {
+    const first = idxs[0];
+    const last = idxs[idxs.length - 1];
+    const kf = new Kalman2D(q, r, pVel);
+    const xf: Float64Array[] = [];
+    const Pf: Float64Array[] = [];
+    const xp: Float64Array[] = [];
+    const Pp: Float64Array[] = [];
+    const F: Float64Array[] = [];
+
+    // Forward pass over every frame of the run; frames without a measurement only predict.
+    // Their time is interpolated between the neighbouring measurements.
+    let prevT = (track[first] as NonNullable<TrackPoint>).tSec;
+    for (let k = first; k <= last; k++) {
+      const p = track[k];
+      const tSec = p ? p.tSec : interpTime(track, k);
+      const dt = k === first ? 0 : Math.max(0, tSec - prevT);
+      if (k > first) kf.predict(dt);
+      const sp = kf.getState();
+      xp.push(new Float64Array([sp.x, sp.y, sp.vx, sp.vy]));
+      Pp.push(kf.getCovariance());
+      F.push(transition(dt));
+      if (p) kf.update(p.x, p.y);
+      const sf = kf.getState();
+      xf.push(new Float64Array([sf.x, sf.y, sf.vx, sf.vy]));
+      Pf.push(kf.getCovariance());
+      prevT = tSec;
+    }
+
+    // Backward pass.
+    const n = xf.length;
+    let xs = xf[n - 1];
+    let Ps = Pf[n - 1];
+    out[last] = { x: xs[0], y: xs[1], vx: xs[2], vy: xs[3], P: Ps };
+    for (let k = n - 2; k >= 0; k--) {
+      const PpInv = inv4(Pp[k + 1]);
+      if (!PpInv) {
+        xs = xf[k]; Ps = Pf[k];
+      } else {
+        const C = mul4(mul4(Pf[k], transpose4(F[k + 1])), PpInv);
+        const dx = new Float64Array(4);
+        for (let i = 0; i < 4; i++) dx[i] = xs[i] - xp[k + 1][i];
+        const nx = new Float64Array(4);
+        for (let i = 0; i < 4; i++) {
+          let acc = xf[k][i];
+          for (let j = 0; j < 4; j++) acc += C[i*4+j] * dx[j];
+          nx[i] = acc;
+        }
+        const dP = new Float64Array(16);
+        for (let i = 0; i < 16; i++) dP[i] = Ps[i] - Pp[k + 1][i];
+        const CdPCt = mul4(mul4(C, dP), transpose4(C));
+        const nP = new Float64Array(16);
+        for (let i = 0; i < 16; i++) nP[i] = Pf[k][i] + CdPCt[i];
+        xs = nx; Ps = nP;
+      }
+      out[first + k] = { x: xs[0], y: xs[1], vx: xs[2], vy: xs[3], P: Ps };
+    }
+  }
+  return out;
+}
+
+/** Time of an unmeasured index, linearly interpolated from the nearest measured neighbours. */
+function interpTime(track: TrackPoint[], k: number) {
+  let a = k - 1; while (a >= 0 && !track[a]) a--;
+  let b = k + 1; while (b < track.length && !track[b]) b++;
+  const pa = a >= 0 ? track[a] : null;
+  const pb = b < track.length ? track[b] : null;
+  if (pa && pb) return pa.tSec + (pb.tSec - pa.tSec) * (k - a) / (b - a);
+  return (pa ?? pb)?.tSec ?? 0;
+}
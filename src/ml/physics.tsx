@@ -0,0 +1,167 @@
+// src/ml/physics.tsx
+// Shuttlecock flight with quadratic drag and gravity. Positions in metres on the
+// image axes (x right, y down, so gravity is +y for a level camera), time in seconds.
+// Tracks on the court plane have no vertical axis and are fitted without gravity.
+
+export type ShuttleType = 'feather' | 'nylon';
+
+// Measured terminal velocities; drag constant k = g / vt^2.
+export const TERMINAL_VELOCITY_MPS: Record<ShuttleType, number> = {
+  feather: 6.8,
+  nylon: 6.3,
+};
+
+const G = 9.81;
+const MAX_STEP = 1 / 2000;
+
+export type FlightSample = { tSec: number; x: number; y: number };
+type State = [number, number, number, number]; // x, y, vx, vy
+
+export type DragFit = {
+  t0: number;               // time of the first fitted sample
+  state0: State;            // fitted state at t0
+  terminalVelocity: number;
+  gravity: number;          // m/s^2 along +y; 0 when y is not vertical
+  rmsM: number;             // RMS position residual in metres
+};
+
+export type DragFitOptions = {
+  iterations?: number;
+  gravity?: boolean; // false when y is not the vertical axis, e.g. court-plane tracks
+};
+
+function deriv(s: State, vt: number, g: number): State {
+  const k = G / (vt * vt);
+  const speed = Math.hypot(s[2], s[3]);
+  return [s[2], s[3], -k * speed * s[2], g - k * speed * s[3]];
+}
+
+/** RK4 from s over dt seconds (dt may be negative to run backwards). */
+function integrate(s: State, dt: number, vt: number, g: number): State {
+  const steps = Math.max(1, Math.ceil(Math.abs(dt) / MAX_STEP));
+  const h = dt / steps;
+  let cur = s;
+  for (let i = 0; i < steps; i++) {
+    const k1 = deriv(cur, vt, g);
+    const k2 = deriv(cur.map((v, j) => v + h / 2 * k1[j]) as State, vt, g);
+    const k3 = deriv(cur.map((v, j) => v + h / 2 * k2[j]) as State, vt, g);
+    const k4 = deriv(cur.map((v, j) => v + h * k3[j]) as State, vt, g);
+    cur = cur.map((v, j) => v + h / 6 * (k1[j] + 2 * k2[j] + 2 * k3[j] + k4[j])) as State;
+  }
+  return cur;
+}
+
+function residuals(samples: FlightSample[], s0: State, vt: number, g: number): number[] {
+  const out: number[] = [];
+  let s = s0;
+  let t = samples[0].tSec;
+  for (const p of samples) {
+    s = integrate(s, p.tSec - t, vt, g);
+    t = p.tSec;
+    out.push(s[0] - p.x, s[1] - p.y);
+  }
+  return out;
+}
+
+/** Solves the 4x4 system A x = b by Gaussian elimination; null if singular. */
+function solve4(A: number[][], b: number[]): number[] | null {
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < 4; c++) {
+    let piv = c;
+    for (let r = c + 1; r < 4; r++) if (Math.abs(m[r][c]) > Math.abs(m[piv][c])) piv = r;
+    if (Math.abs(m[piv][c]) < 1e-15) return null;
+    [m[c], m[piv]] = [m[piv], m[c]];
+    for (let r = c + 1; r < 4; r++) {
+      const f = m[r][c] / m[c][c];
+      for (let k = c; k < 5; k++) m[r][k] -= f * m[c][k];
+    }
+  }
+  const x = [0, 0, 0, 0];
+  for (let r = 3; r >= 0; r--) {
+    let acc = m[r][4];
+    for (let k = r + 1; k < 4; k++) acc -= m[r][k] * x[k];
+    x[r] = acc / m[r][r];
+  }
+  return x;
+}
+
+const sumSq = (r: number[]) => r.reduce((a, v) => a + v * v, 0);
+
+/**
+ * Levenberg–Marquardt fit of the initial state (position and velocity at the
+ * first sample) so the drag model passes through the samples. Needs at least
+ * three samples with increasing timestamps.
+ */
+export function fitDragModel(samples: FlightSample[], terminalVelocity: number, opts: DragFitOptions = {}): DragFit | null {
+  const { iterations = 30, gravity = true } = opts;
+  const g = gravity ? G : 0;
+  if (samples.length < 3 || !(terminalVelocity > 0)) return null;
+  const a = samples[0], b = samples[1];
+  const dt0 = b.tSec - a.tSec;
+  if (!(dt0 > 0)) return null;
+
+  let s: State = [a.x, a.y, (b.x - a.x) / dt0, (b.y - a.y) / dt0];
+  let r = residuals(samples, s, terminalVelocity, g);
+  let cost = sumSq(r);
+  let lambda = 1e-3;
+
+  for (let it = 0; it < iterations; it++) {
+    // Numerical Jacobian, one column per state component.
+    const J: number[][] = [];
+    for (let j = 0; j < 4; j++) {
+      const eps = j < 2 ? 1e-4 : 1e-3 * Math.max(1, Math.abs(s[j]));
+      const sp = s.slice() as State;
+      sp[j] += eps;
+      const rp = residuals(samples, sp, terminalVelocity, g);
+      J.push(rp.map((v, i) => (v - r[i]) / eps));
+    }
+    const JTJ = [0, 1, 2, 3].map(i => [0, 1, 2, 3].map(j => J[i].reduce((acc, v, k) => acc + v * J[j][k], 0)));
+    const JTr = [0, 1, 2, 3].map(i => J[i].reduce((acc, v, k) => acc + v * r[k], 0));
+
+    let improved = false;
+    while (lambda < 1e8) {
+      const A = JTJ.map((row, i) => row.map((v, j) => (i === j ? v * (1 + lambda) : v)));
+      const step = solve4(A, JTr.map(v => -v));
+      if (!step) { lambda *= 10; continue; }
+      const cand = s.map((v, j) => v + step[j]) as State;
+      const rc = residuals(samples, cand, terminalVelocity, g);
+      const cc = sumSq(rc);
+      if (cc < cost) {
+        s = cand; r = rc;
+        improved = cost - cc > 1e-12 * Math.max(1, cost);
+        cost = cc;
+        lambda = Math.max(1e-7, lambda / 10);
+        break;
+      }
+      lambda *= 10;
+    }
+    if (!improved) break;
+  }
+
+  return { t0: a.tSec, state0: s, terminalVelocity, gravity: g, rmsM: Math.sqrt(cost / samples.length) };
+}
+
+/** Model speed (m/s) at any time, extrapolating forwards or backwards from the fit. */
+export function speedAt(fit: DragFit, tSec: number) {
+  const s = integrate(fit.state0, tSec - fit.t0, fit.terminalVelocity, fit.gravity);
+  return Math.hypot(s[2], s[3]);
+}
+
+/**
+ * Estimated shuttle speed at racket contact. Contact is taken half a frame
+ * interval before the first sample unless contactTSec is given, since the hit
+ * happened at an unknown point in the interval before the shuttle was seen.
+ */
+export function estimateContactSpeed(
+  samples: FlightSample[],
+  terminalVelocity: number,
+  contactTSec?: number,
+  opts: DragFitOptions = {},
+): { initialMps: number; contactTSec: number; fit: DragFit } | null {
+  const fit = fitDragModel(samples, terminalVelocity, opts);
+  if (!fit) return null;
+  const tc = contactTSec ?? samples[0].tSec - (samples[1].tSec - samples[0].tSec) / 2;
+  const initialMps = speedAt(fit, tc);
+  if (!Number.isFinite(initialMps)) return null;
+  return { initialMps, contactTSec: tc, fit };
+}
@@ -0,0 +1,77 @@
+// src/ml/rally.tsx
+// Splits a rally-length track into shots at direction reversals (each hit)
+// and measures every shot the way a single-smash clip is measured.
+import type { TrackPoint } from './kalman';
+import { robustPeakSpeed, RobustPeak } from './robust';
+import { detectContacts } from './contact';
+
+export type Shot = {
+  startIndex: number;    // first frame of the shot (its contact, or the first tracked frame)
+  endIndex: number;      // last frame before the next contact
+  contactIndex: number | null; // null for a shot already in flight when the clip starts
+  peakIndex: number;     // -1 when no speed could be fitted
+  peakPxPerSec: number;
+  angleDeg: number;      // direction of travel at the peak, 0-360 in image axes
+};
+
+export type RallyOptions = {
+  maxGapSec?: number;
+  minTurnDeg?: number;        // smaller turns are drift, not a hit
+  minShotFrames?: number;     // shorter segments are merged into the previous shot
+  postContactFrames?: number; // the peak is searched this many frames after contact
+};
+
+/**
+ * Contacts come from the inlier track of a first robust fit. The track is then
+ * refitted with windows that stop at each contact, and every shot's peak and
+ * angle come from that fit, so neither a bad box nor the incoming shot can set
+ * a shot's speed.
+ */
+export function splitRally(track: TrackPoint[], opts: RallyOptions = {}): { shots: Shot[]; fit: RobustPeak } {
+  const { maxGapSec = 0.5, minTurnDeg = 90, minShotFrames = 4, postContactFrames = 5 } = opts;
+  const firstPass = robustPeakSpeed(track, { maxGapSec });
+  const inliers = track.map((p, i) => (firstPass.rejected[i] ? null : p));
+  const valid = inliers.map((p, i) => (p ? i : -1)).filter(i => i >= 0);
+  if (valid.length < 2) return { shots: [], fit: firstPass };
+
+  const contacts = detectContacts(inliers, { maxGapSec, minTurnDeg, minSeparation: minShotFrames })
+    .map(c => c.index);
+
+  // Segment starts: the first tracked frame, then every contact.
+  const starts: { index: number; contact: boolean }[] = [{ index: valid[0], contact: false }];
+  for (const c of contacts) {
+    if (c - starts[starts.length - 1].index < minShotFrames) {
+      // A contact right at the start of the track replaces the synthetic start.
+      if (starts.length === 1 && !starts[0].contact) starts[0] = { index: c, contact: true };
+      continue;
+    }
+    starts.push({ index: c, contact: true });
+  }
+
+  const robust = robustPeakSpeed(track, { maxGapSec, breaks: starts.filter(s => s.contact).map(s => s.index) });
+  const lastValid = valid[valid.length - 1];
+  const shots = starts.map((s, k) => {
+    const endIndex = k + 1 < starts.length ? starts[k + 1].index - 1 : lastValid;
+    const from = s.contact ? s.index + 1 : s.index;
+    const to = Math.min(endIndex, s.contact ? s.index + postContactFrames : endIndex);
+
+    let peakIndex = -1;
+    for (let i = from; i <= to; i++) {
+      const v = robust.speedsPxPerSec[i];
+      if (v != null && (peakIndex < 0 || v > (robust.speedsPxPerSec[peakIndex] as number))) peakIndex = i;
+    }
+    const vel = peakIndex >= 0 ? robust.velocities[peakIndex] : null;
+    let angleDeg = vel ? Math.atan2(vel.vy, vel.vx) * (180 / Math.PI) : 0;
+    if (angleDeg < 0) angleDeg += 360;
+
+    return {
+      startIndex: s.index,
+      endIndex,
+      contactIndex: s.contact ? s.index : null,
+      peakIndex,
+      peakPxPerSec: peakIndex >= 0 ? (robust.speedsPxPerSec[peakIndex] as number) : 0,
+      angleDeg,
+    };
+  });
+  return { shots, fit: robust };
+}
@@ -0,0 +1,101 @@
+// src/ml/replay.tsx
+// Detector backend that replays recorded detections instead of running a model.
+// Lets screens run without the Android module: tests, iOS builds and demos.
+import * as FileSystem from 'expo-file-system';
+import { ClassNames, DEFAULT_CLASS_NAMES, Detector, DetectRequest, FrameDetections, createFrameStream, isRecord, toFrameDetections } from './detector';
+
+type ReplaySource = FrameDetections[] | (() => Promise<FrameDetections[]>);
+
+// Where the registered replay backend looks for a recording to play.
+export const REPLAY_RECORDING_URI = `${FileSystem.documentDirectory}recorded-detections.json`;
+
+/**
+ * Parses recorded detection JSON: either a bare `FrameDetections[]` or
+ * `{ frames: FrameDetections[] }` as written by a capture session. Malformed
+ * frames and boxes are skipped.
+ */
+export function parseRecordedDetections(json: string): FrameDetections[] {
+  const data: unknown = JSON.parse(json);
+  const frames = Array.isArray(data) ? data : isRecord(data) ? data.frames : null;
+  if (!Array.isArray(frames)) throw new Error('Recorded detections must be an array of frames');
+  return frames
+    .map(f => toFrameDetections(f))
+    .filter((f): f is FrameDetections => f != null)
+    .sort((a, b) => a.t - b.t);
+}
+
+export async function loadRecordedDetections(uri: string): Promise<FrameDetections[]> {
+  const json = await FileSystem.readAsStringAsync(uri);
+  return parseRecordedDetections(json);
+}
+
+// The recording at REPLAY_RECORDING_URI, with a readable error when there is none.
+async function loadDefaultRecording(): Promise<FrameDetections[]> {
+  const info = await FileSystem.getInfoAsync(REPLAY_RECORDING_URI);
+  if (!info.exists) {
+    throw new Error('This device has no shuttle detector. To replay recorded detections, save them as recorded-detections.json in the app\'s documents folder.');
+  }
+  return loadRecordedDetections(REPLAY_RECORDING_URI);
+}
+
+/**
+ * Replays frames whose timestamp falls in the requested range, thinned to the
+ * requested fps. Confidence, class and max-detection filters are applied to the
+ * recorded boxes; NMS is not re-run. The video path is ignored; frameDelayMs
+ * paces the stream to mimic a live decoder.
+ */
+export function createReplayDetector(
+  source: ReplaySource,
+  opts: { name?: string; frameDelayMs?: number; classNames?: ClassNames } = {},
+): Detector {
+  const { name = 'replay', frameDelayMs = 0, classNames = DEFAULT_CLASS_NAMES } = opts;
+  const running = new Set<() => void>(); // stop of each job still replaying
+
+  return {
+    name,
+    isAvailable: () => true,
+    warmup: async () => {},
+    classNames: async () => classNames,
+    detectVideo(_path: string, req: DetectRequest) {
+      let cancelled = false;
+      const { stream, push, end, fail } = createFrameStream(() => { cancelled = true; });
+      const stop = () => {
+        cancelled = true;
+        end();
+      };
+      running.add(stop);
+      (async () => {
+        const all = typeof source === 'function' ? await source() : source;
+        const fromMs = req.startSec * 1000;
+        const toMs = req.endSec * 1000;
+        const { confThreshold, maxDetections, fps, classIds } = req.options;
+        const minStepMs = fps > 0 ? 1000 / fps : 0;
+        let lastT = -Infinity;
+        for (const f of all) {
+          if (cancelled) break;
+          if (f.t < fromMs || f.t > toMs) continue;
+          if (f.t - lastT < minStepMs) continue;
+          lastT = f.t;
+          if (frameDelayMs > 0) await new Promise<void>(r => setTimeout(r, frameDelayMs));
+          const boxes = f.boxes
+            .filter(b => b.confidence >= confThreshold)
+            .filter(b => !classIds || classIds.includes(b.classId))
+            .slice(0, maxDetections);
+          push({ t: f.t, boxes });
+        }
+        end();
+      })()
+        .catch(fail)
+        .then(() => running.delete(stop));
+      return stream;
+    },
+    cancel() {
+      [...running].forEach(stop => stop());
+    },
+  };
+}
+
+/** Replay backend for the recording at REPLAY_RECORDING_URI, read afresh on every run. */
+export function createRecordedReplayDetector(): Detector {
+  return createReplayDetector(loadDefaultRecording);
+}
@@ -0,0 +1,149 @@
+// src/ml/robust.tsx
+// Peak speed from a locally fitted trajectory. Each frame gets a quadratic fit
+// of x(t) and y(t) over a sliding window; centres that sit too far off the fit
+// are dropped one at a time and the fit repeated, so a single mis-placed box
+// cannot set the peak.
+import type { TrackPoint } from './kalman';
+
+export type RobustPeakOptions = {
+  halfWindow?: number;      // valid frames either side of the centre frame
+  minThresholdPx?: number;  // residuals below this are never rejected
+  sigmas?: number;          // rejection threshold in robust standard deviations
+  maxRejectFraction?: number;
+  maxGapSec?: number;       // windows do not reach across longer gaps
+  breaks?: number[];        // frames that start a new segment (e.g. racket contacts); windows never span one
+};
+
+export type RobustPeak = {
+  speedsPxPerSec: (number | null)[]; // fitted speed per frame, null where no fit
+  velocities: ({ vx: number; vy: number } | null)[];
+  rejected: boolean[];
+  peakIndex: number;                 // -1 if no frame could be fitted
+  peakPxPerSec: number;
+};
+
+type Fit = { cx: number[]; cy: number[]; t0: number };
+
+/** Least-squares polynomial (degree 1 or 2) in (t - t0); null if singular. */
+function polyFit(ts: number[], vs: number[], degree: number, t0: number): number[] | null {
+  const n = degree + 1;
+  const A = Array.from({ length: n }, () => new Array(n + 1).fill(0));
+  for (let k = 0; k < ts.length; k++) {
+    const dt = ts[k] - t0;
+    const pw = [1, dt, dt * dt];
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) A[i][j] += pw[i] * pw[j];
+      A[i][n] += pw[i] * vs[k];
+    }
+  }
+  for (let c = 0; c < n; c++) {
+    let piv = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(A[r][c]) > Math.abs(A[piv][c])) piv = r;
+    if (Math.abs(A[piv][c]) < 1e-12) return null;
+    [A[c], A[piv]] = [A[piv], A[c]];
+    for (let r = c + 1; r < n; r++) {
+      const f = A[r][c] / A[c][c];
+      for (let k = c; k <= n; k++) A[r][k] -= f * A[c][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let acc = A[r][n];
+    for (let k = r + 1; k < n; k++) acc -= A[r][k] * x[k];
+    x[r] = acc / A[r][r];
+  }
+  while (x.length < 3) x.push(0);
+  return x;
+}
+
+function fitPoints(pts: { x: number; y: number; tSec: number }[], t0: number): Fit | null {
+  if (pts.length < 3) return null;
+  const degree = pts.length >= 4 ? 2 : 1;
+  const ts = pts.map(p => p.tSec);
+  const cx = polyFit(ts, pts.map(p => p.x), degree, t0);
+  const cy = polyFit(ts, pts.map(p => p.y), degree, t0);
+  return cx && cy ? { cx, cy, t0 } : null;
+}
+
+function residual(fit: Fit, p: { x: number; y: number; tSec: number }) {
+  const dt = p.tSec - fit.t0;
+  const x = fit.cx[0] + fit.cx[1] * dt + fit.cx[2] * dt * dt;
+  const y = fit.cy[0] + fit.cy[1] * dt + fit.cy[2] * dt * dt;
+  return Math.hypot(p.x - x, p.y - y);
+}
+
+const median = (v: number[]) => {
+  const s = [...v].sort((a, b) => a - b);
+  return s.length ? s[Math.floor(s.length / 2)] : 0;
+};
+
+/**
+ * Fits every frame's window, rejecting the worst centre while it exceeds
+ * max(minThresholdPx, sigmas * 1.4826 * MAD). A frame is rejected when the
+ * window centred on it throws it out, where it has the least leverage; the
+ * windows are then refitted without rejected frames for the speeds, since an
+ * outlier at the edge of a window can bend the fit without being caught there.
+ */
+export function robustPeakSpeed(track: TrackPoint[], opts: RobustPeakOptions = {}): RobustPeak {
+  const { halfWindow = 3, minThresholdPx = 8, sigmas = 3, maxRejectFraction = 0.34, maxGapSec = 0.5, breaks = [] } = opts;
+  const n = track.length;
+  const speeds: (number | null)[] = new Array(n).fill(null);
+  const velocities: ({ vx: number; vy: number } | null)[] = new Array(n).fill(null);
+  const rejected: boolean[] = new Array(n).fill(false);
+  const valid = track.map((p, i) => (p ? i : -1)).filter(i => i >= 0);
+  // Run id per valid frame; a new run starts after each long gap or break.
+  const run: number[] = [];
+  valid.forEach((i, v) => {
+    if (v === 0) { run.push(0); return; }
+    const gap = track[i]!.tSec - track[valid[v - 1]]!.tSec;
+    const broken = gap > maxGapSec || breaks.some(b => b > valid[v - 1] && b <= i);
+    run.push(run[v - 1] + (broken ? 1 : 0));
+  });
+
+  const windowAt = (v: number) => valid
+    .slice(Math.max(0, v - halfWindow), v + halfWindow + 1)
+    .filter((_, k) => run[Math.max(0, v - halfWindow) + k] === run[v]);
+
+  for (let v = 0; v < valid.length; v++) {
+    const i = valid[v];
+    const centre = track[i]!;
+    let idx = windowAt(v);
+    const maxReject = Math.floor(idx.length * maxRejectFraction);
+    let fit = fitPoints(idx.map(k => track[k]!), centre.tSec);
+
+    for (let dropped = 0; fit && dropped < maxReject; dropped++) {
+      const res = idx.map(k => residual(fit as Fit, track[k]!));
+      const threshold = Math.max(minThresholdPx, sigmas * 1.4826 * median(res));
+      let worst = 0;
+      for (let k = 1; k < res.length; k++) if (res[k] > res[worst]) worst = k;
+      if (res[worst] <= threshold) break;
+      const next = idx.filter((_, k) => k !== worst);
+      const refit = fitPoints(next.map(k => track[k]!), centre.tSec);
+      if (!refit) break;
+      idx = next;
+      fit = refit;
+    }
+    if (fit && !idx.includes(i)) rejected[i] = true;
+  }
+
+  for (let v = 0; v < valid.length; v++) {
+    const i = valid[v];
+    if (rejected[i]) continue;
+    const fit = fitPoints(windowAt(v).filter(k => !rejected[k]).map(k => track[k]!), track[i]!.tSec);
+    if (!fit) continue;
+    // Derivative of the fit at the centre frame (dt = 0).
+    velocities[i] = { vx: fit.cx[1], vy: fit.cy[1] };
+    speeds[i] = Math.hypot(fit.cx[1], fit.cy[1]);
+  }
+
+  let peakIndex = -1;
+  let peakPxPerSec = 0;
+  for (let i = 0; i < n; i++) {
+    const s = speeds[i];
+    if (s != null && !rejected[i] && s > peakPxPerSec) {
+      peakPxPerSec = s;
+      peakIndex = i;
+    }
+  }
+  return { speedsPxPerSec: speeds, velocities, rejected, peakIndex, peakPxPerSec };
+}
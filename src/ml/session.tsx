@@ -0,0 +1,122 @@
+// src/ml/session.tsx
+// One detection run over a clip: frames, progress, completion, errors and cancel in one place.
+import { runDetection, validateDetectionOptions, DetectionOptions, FrameDetections } from './yolo';
+import { getDetector } from './detector';
+import { getCachedDetections, putCachedDetections, DetectionCacheKey } from './detectionCache';
+
+export type DetectionProgress = {
+  decoded: number;
+  expected: number | null; // null until the frame rate is known
+};
+
+export type DetectionSessionState = 'running' | 'complete' | 'error' | 'cancelled';
+
+export type DetectionSessionHandlers = {
+  onFrame: (frame: FrameDetections) => void;
+  /** Every frame of a cache hit in one call; without it onFrame gets them one by one. */
+  onFrames?: (frames: FrameDetections[]) => void;
+  onProgress?: (progress: DetectionProgress) => void;
+  onComplete?: () => void;
+  onError?: (error: Error) => void;
+  /** Frames were served from the on-disk cache instead of the detector. */
+  onCacheHit?: () => void;
+};
+
+export type DetectionSessionOptions = {
+  useCache?: boolean; // read and write the detection cache (default true)
+  refresh?: boolean;  // skip the cache read but store the fresh result
+};
+
+export type DetectionSession = {
+  readonly state: DetectionSessionState;
+  readonly progress: DetectionProgress;
+  /** Settles once the session is complete, failed or cancelled; never rejects. */
+  done: Promise<void>;
+  cancel(): void;
+};
+
+/** Median frame interval from the timestamps seen so far, as frames per second. */
+function estimateFps(timesMs: number[]) {
+  if (timesMs.length < 3) return null;
+  const sorted = [...timesMs].sort((a, b) => a - b);
+  const deltas = sorted.slice(1).map((t, i) => t - sorted[i]).filter(d => d > 0).sort((a, b) => a - b);
+  if (!deltas.length) return null;
+  const median = deltas[Math.floor(deltas.length / 2)];
+  return 1000 / median;
+}
+
+export function startDetectionSession(
+  videoPath: string,
+  startSec: number,
+  endSec: number,
+  options: Partial<DetectionOptions>,
+  handlers: DetectionSessionHandlers,
+  sessionOptions: DetectionSessionOptions = {},
+): DetectionSession {
+  const { useCache = true, refresh = false } = sessionOptions;
+  let state: DetectionSessionState = 'running';
+  const times: number[] = [];
+  const collected: FrameDetections[] = [];
+  let frames: AsyncIterableIterator<FrameDetections> | null = null;
+  const durationSec = Math.max(0, endSec - startSec);
+
+  const progress = (): DetectionProgress => {
+    const fps = options.fps && options.fps > 0 ? options.fps : estimateFps(times);
+    const expected = fps ? Math.max(times.length, Math.round(durationSec * fps)) : null;
+    return { decoded: times.length, expected };
+  };
+
+  const done = (async () => {
+    try {
+      handlers.onProgress?.(progress());
+
+      let cacheKey: DetectionCacheKey | null = null;
+      if (useCache) {
+        cacheKey = { videoPath, startSec, endSec, options: validateDetectionOptions(options), backend: getDetector().name };
+        const cached = refresh ? null : await getCachedDetections(cacheKey);
+        // Cancelled while the cache was being read: don't start a run nobody wants.
+        if (state !== 'running') return;
+        if (cached) {
+          handlers.onCacheHit?.();
+          times.push(...cached.map(f => f.t));
+          if (handlers.onFrames) handlers.onFrames(cached);
+          else cached.forEach(frame => handlers.onFrame(frame));
+          handlers.onProgress?.({ decoded: times.length, expected: times.length });
+          state = 'complete';
+          handlers.onComplete?.();
+          return;
+        }
+      }
+
+      frames = runDetection(videoPath, startSec, endSec, options);
+      for await (const frame of frames) {
+        if (state !== 'running') break;
+        times.push(frame.t);
+        collected.push(frame);
+        handlers.onFrame(frame);
+        handlers.onProgress?.(progress());
+      }
+      if (state === 'running') {
+        state = 'complete';
+        handlers.onComplete?.();
+        // Only whole runs are cached; cancelled or failed runs are partial.
+        if (cacheKey && collected.length) await putCachedDetections(cacheKey, collected);
+      }
+    } catch (e) {
+      if (state !== 'running') return;
+      state = 'error';
+      handlers.onError?.(e instanceof Error ? e : new Error(String(e)));
+    }
+  })();
+
+  return {
+    get state() { return state; },
+    get progress() { return progress(); },
+    done,
+    cancel() {
+      if (state !== 'running') return;
+      state = 'cancelled';
+      frames?.return?.();
+    },
+  };
+}
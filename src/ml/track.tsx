@@ -0,0 +1,110 @@
+// src/ml/track.tsx
+// Picks one shuttle candidate per frame by gating detections against a Kalman prediction.
+import { Kalman2D } from './kalman';
+
+export type Point = { x: number; y: number };
+
+export type TrackFrame = {
+  tSec: number;
+  candidates: Point[]; // box centres in video pixels, in detector (confidence) order
+  user?: Point | null; // a user-edited box always wins
+  ignored?: boolean;   // a box is still picked for display, but it does not move the track
+};
+
+export type AssociationReason =
+  | 'user'    // user-edited box was used
+  | 'init'    // track (re)started on the most confident box
+  | 'nearest' // second point of a track: velocity unknown, nearest box within reach taken
+  | 'gated'   // candidate closest to the prediction, inside the gate
+  | 'miss'    // candidates exist but none passed the gate
+  | 'empty';  // no candidates at all
+
+export type Association = {
+  chosen: number | null; // index into candidates, null for user/miss/empty
+  reason: AssociationReason;
+  d2: number | null;     // Mahalanobis distance^2 of the chosen (or best rejected) candidate
+};
+
+export type AssociateOptions = {
+  q: number;
+  r: number;
+  gate?: number;     // d^2 threshold; 9.21 is the 99% chi-square bound for 2 dof
+  maxMisses?: number; // consecutive misses before the track is dropped and re-acquired
+  maxGapSec?: number;
+  maxSpeedPxPerSec?: number; // the second point must lie within this speed times the time since the first
+};
+
+export function associateDetections(frames: TrackFrame[], opts: AssociateOptions): Association[] {
+  const { q, r, gate = 9.21, maxMisses = 4, maxGapSec = 0.5, maxSpeedPxPerSec = Infinity } = opts;
+  const kf = new Kalman2D(q, r);
+  const out: Association[] = [];
+  let updates = 0;
+  let misses = 0;
+  let lastPos: Point | null = null;
+  let lastPosT = 0;
+  let lastT: number | null = null;
+
+  const restart = () => { kf.reset(); updates = 0; misses = 0; lastPos = null; };
+  const accept = (p: Point, tSec: number) => { kf.update(p.x, p.y); updates++; misses = 0; lastPos = p; lastPosT = tSec; };
+
+  for (const f of frames) {
+    const use = (p: Point) => { if (!f.ignored) accept(p, f.tSec); };
+    const miss = (d2: number | null) => {
+      out.push({ chosen: null, reason: 'miss', d2 });
+      if (!f.ignored && ++misses > maxMisses) restart();
+    };
+    if (lastT != null) {
+      const dt = f.tSec - lastT;
+      if (dt > maxGapSec) restart();
+      else if (dt > 0) kf.predict(dt);
+    }
+    lastT = f.tSec;
+
+    if (f.user) {
+      use(f.user);
+      out.push({ chosen: null, reason: 'user', d2: null });
+      continue;
+    }
+    if (!f.candidates.length) {
+      out.push({ chosen: null, reason: 'empty', d2: null });
+      continue;
+    }
+    if (updates === 0) {
+      use(f.candidates[0]);
+      out.push({ chosen: 0, reason: 'init', d2: null });
+      continue;
+    }
+    if (updates === 1 && lastPos) {
+      const from: Point = lastPos;
+      let best = 0;
+      let bestDist = Infinity;
+      f.candidates.forEach((c, i) => {
+        const d = Math.hypot(c.x - from.x, c.y - from.y);
+        if (d < bestDist) { bestDist = d; best = i; }
+      });
+      const d2 = kf.mahalanobis2(f.candidates[best].x, f.candidates[best].y);
+      // Without a velocity the only gate is how far the shuttle can have flown.
+      if (bestDist > maxSpeedPxPerSec * Math.max(0, f.tSec - lastPosT)) {
+        miss(d2);
+        continue;
+      }
+      use(f.candidates[best]);
+      out.push({ chosen: best, reason: 'nearest', d2 });
+      continue;
+    }
+
+    let best = -1;
+    let bestD2 = Infinity;
+    f.candidates.forEach((c, i) => {
+      const d2 = kf.mahalanobis2(c.x, c.y);
+      if (d2 < bestD2) { bestD2 = d2; best = i; }
+    });
+    if (best >= 0 && bestD2 <= gate) {
+      use(f.candidates[best]);
+      out.push({ chosen: best, reason: 'gated', d2: bestD2 });
+    } else {
+      miss(Number.isFinite(bestD2) ? bestD2 : null);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,104 @@
+// src/ml/uncertainty.tsx
+// Rough error budget for a measured speed. Each source is expressed as a
+// relative error and they are combined in quadrature into a ± and a grade.
+
+export type AccuracyGrade = 'A' | 'B' | 'C' | 'D';
+
+export type UncertaintyInputs = {
+  speedKph: number;
+  metersPerPixel: number;
+  calibrationPx: number | null;    // length of the calibration line in video pixels
+  frameIntervalSec: number;        // interval the peak speed was measured over
+  boxConfidence: number | null;    // mean confidence of the boxes around the peak; null if all hand-placed
+  boxSizePx: number | null;        // mean sqrt(w * h) of those boxes in video pixels
+  interpolatedFrames: number;      // interpolated boxes among them
+  neighbourSpeedsKph: number[];    // speeds of the frames around the peak, peak included
+};
+
+export type UncertaintyTerms = {
+  calibration: number;
+  localisation: number;
+  timing: number;
+  interpolation: number;
+  agreement: number;
+};
+
+export type SpeedUncertainty = {
+  plusMinusKph: number;
+  relative: number;
+  grade: AccuracyGrade;
+  terms: UncertaintyTerms;
+};
+
+// How far a calibration handle is typically off, per end, in video pixels.
+const CALIBRATION_HANDLE_PX = 2;
+// Used when the calibration length is unknown: a short line on a phone video.
+const FALLBACK_CALIBRATION_PX = 150;
+// Box-centre error as a fraction of box size for a fully confident detection.
+const CENTRE_ERROR_FRACTION = 0.1;
+const MIN_CENTRE_ERROR_PX = 1;
+// Container timestamps are rounded and decoders jitter by about a millisecond.
+const TIMESTAMP_JITTER_SEC = 0.001;
+// Each interpolated box near the peak is a guess on a straight line.
+const PER_INTERPOLATED_FRAME = 0.05;
+
+// Upper bounds of the relative error for each grade; anything above is D.
+const GRADE_LIMITS: [AccuracyGrade, number][] = [['A', 0.05], ['B', 0.1], ['C', 0.2]];
+
+export const GRADE_DESCRIPTIONS: Record<AccuracyGrade, string> = {
+  A: 'High confidence',
+  B: 'Good',
+  C: 'Fair',
+  D: 'Low confidence',
+};
+
+export const GRADE_COLORS: Record<AccuracyGrade, string> = {
+  A: '#34C759',
+  B: '#007AFF',
+  C: '#FF9500',
+  D: '#FF3B30',
+};
+
+export function gradeFor(relative: number): AccuracyGrade {
+  for (const [grade, limit] of GRADE_LIMITS) if (relative <= limit) return grade;
+  return 'D';
+}
+
+function coefficientOfVariation(values: number[]) {
+  const v = values.filter(Number.isFinite);
+  if (v.length < 2) return 0;
+  const mean = v.reduce((a, b) => a + b, 0) / v.length;
+  if (!(mean > 0)) return 0;
+  const variance = v.reduce((a, b) => a + (b - mean) * (b - mean), 0) / (v.length - 1);
+  return Math.sqrt(variance) / mean;
+}
+
+export function estimateSpeedUncertainty(inputs: UncertaintyInputs): SpeedUncertainty {
+  const { speedKph, metersPerPixel, frameIntervalSec } = inputs;
+
+  const calibrationPx = inputs.calibrationPx && inputs.calibrationPx > 0 ? inputs.calibrationPx : FALLBACK_CALIBRATION_PX;
+  const calibration = (Math.SQRT2 * CALIBRATION_HANDLE_PX) / calibrationPx;
+
+  // Two centre errors over the distance travelled in one interval.
+  let localisation = 0;
+  const travelledPx = metersPerPixel > 0 ? (speedKph / 3.6 / metersPerPixel) * frameIntervalSec : 0;
+  if (travelledPx > 0) {
+    const size = inputs.boxSizePx ?? 0;
+    const conf = Math.max(0, Math.min(1, inputs.boxConfidence ?? 1));
+    const centrePx = Math.max(MIN_CENTRE_ERROR_PX, CENTRE_ERROR_FRACTION * size) * (2 - conf);
+    localisation = (Math.SQRT2 * centrePx) / travelledPx;
+  }
+
+  const timing = frameIntervalSec > 0 ? TIMESTAMP_JITTER_SEC / frameIntervalSec : 0;
+  const interpolation = Math.max(0, inputs.interpolatedFrames) * PER_INTERPOLATED_FRAME;
+  const agreement = coefficientOfVariation(inputs.neighbourSpeedsKph);
+
+  const terms = { calibration, localisation, timing, interpolation, agreement };
+  const relative = Math.sqrt(Object.values(terms).reduce((a, t) => a + t * t, 0));
+  return {
+    plusMinusKph: relative * Math.max(0, speedKph),
+    relative,
+    grade: gradeFor(relative),
+    terms,
+  };
+}
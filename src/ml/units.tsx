@@ -0,0 +1,77 @@
+// src/ml/units.tsx
+// Speed unit preference and formatting. Speeds are computed and saved in metric
+// units (km/h fields such as peakSpeedKph), so old and new results always
+// compare; they are converted only when shown to the user.
+import { useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type SpeedUnit = 'kmh' | 'mph' | 'mps';
+
+export const SPEED_UNITS: SpeedUnit[] = ['kmh', 'mph', 'mps'];
+export const SPEED_UNIT_LABELS: Record<SpeedUnit, string> = { kmh: 'km/h', mph: 'mph', mps: 'm/s' };
+export const DEFAULT_SPEED_UNIT: SpeedUnit = 'kmh';
+
+const UNIT_KEY = 'speedUnit';
+const KPH_PER_MPH = 1.609344;
+const KPH_PER_MPS = 3.6;
+
+export function kphToUnit(kph: number, unit: SpeedUnit): number {
+  if (unit === 'mph') return kph / KPH_PER_MPH;
+  if (unit === 'mps') return kph / KPH_PER_MPS;
+  return kph;
+}
+
+/** e.g. "312.4 km/h"; "--" (with the unit) when there is no speed. */
+export function formatSpeed(kph: number | null | undefined, unit: SpeedUnit, digits = 1): string {
+  return `${formatSpeedValue(kph, unit, digits)} ${SPEED_UNIT_LABELS[unit]}`;
+}
+
+/** The number alone, for layouts that draw the unit separately. */
+export function formatSpeedValue(kph: number | null | undefined, unit: SpeedUnit, digits = 1): string {
+  return kph != null && Number.isFinite(kph) ? kphToUnit(kph, unit).toFixed(digits) : '--';
+}
+
+export function nextSpeedUnit(unit: SpeedUnit): SpeedUnit {
+  return SPEED_UNITS[(SPEED_UNITS.indexOf(unit) + 1) % SPEED_UNITS.length];
+}
+
+// For calibration lengths entered in feet.
+export const FEET_PER_METER = 3.28084;
+
+// --- Preference ---
+// One value shared by every mounted screen, so changing it in one place
+// updates the others without a reload.
+let current: SpeedUnit | null = null;
+const listeners = new Set<(unit: SpeedUnit) => void>();
+
+export async function loadSpeedUnit(): Promise<SpeedUnit> {
+  if (current) return current;
+  try {
+    const v = await AsyncStorage.getItem(UNIT_KEY);
+    current = SPEED_UNITS.includes(v as SpeedUnit) ? (v as SpeedUnit) : DEFAULT_SPEED_UNIT;
+  } catch (e) {
+    console.warn('Failed to load speed unit', e);
+    current = DEFAULT_SPEED_UNIT;
+  }
+  return current;
+}
+
+export function setSpeedUnit(unit: SpeedUnit) {
+  current = unit;
+  listeners.forEach(l => l(unit));
+  AsyncStorage.setItem(UNIT_KEY, unit).catch(e => console.warn('Failed to save speed unit', e));
+}
+
+export function useSpeedUnit(): [SpeedUnit, (unit: SpeedUnit) => void] {
+  const [unit, setUnit] = useState<SpeedUnit>(current ?? DEFAULT_SPEED_UNIT);
+  useEffect(() => {
+    let active = true;
+    listeners.add(setUnit);
+    loadSpeedUnit().then(u => { if (active) setUnit(u); });
+    return () => {
+      active = false;
+      listeners.delete(setUnit);
+    };
+  }, []);
+  return [unit, setSpeedUnit];
+}
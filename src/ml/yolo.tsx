@@ -1,15 +1,36 @@
 // src/ml/yolo.ts
-import { NativeModules } from 'react-native';
+import { NativeModules, DeviceEventEmitter } from 'react-native';
+import {
+  ClassNames,
+  DEFAULT_CLASS_NAMES,
+  Detector,
+  DetectRequest,
+  DetectionOptions,
+  FrameDetections,
+  createFrameStream,
+  getDetector,
+  registerDetector,
+  validateDetectionOptions,
+} from './detector';
+import type { VideoTiming } from './frameRate';
+import { createRecordedReplayDetector } from './replay';
 
-// Updated native module interface
+export type { FrameDetections, DetectionOptions, ClassNames } from './detector';
+export { DEFAULT_CLASS_NAMES, DEFAULT_DETECTION_OPTIONS, validateDetectionOptions, shuttleClassIds } from './detector';
+
+// Updated native module interface (absent on platforms without the Android module)
 const { YoloDetector } = NativeModules as {
-  YoloDetector: {
+  YoloDetector?: {
     warmup: () => Promise<void>;
+    cancel?: (jobId: number) => void;
+    getClassNames?: () => Promise<Record<string, string>>; // from the ONNX "names" metadata
+    getVideoTiming?: (path: string) => Promise<{ captureFps: number | null; playbackFps: number | null }>;
     detectVideo: (
+      jobId: number,
       path: string,
-      fps: number,
       startSec: number,
       endSec: number,
+      options: DetectionOptions,
     ) => Promise<void>; // Promise is now void, results are streamed
   };
 };
@@ -21,21 +42,146 @@ export type Box = {
   width: number;
   height: number;
   confidence: number;
+  classId: number; // index into the model's class names
 };
 
+// Every native event carries the id of the job that sent it.
+type JobEvent = { jobId?: number } | null;
+
+/**
+ * The Android ONNX module. Frames come in as `onFrameDetected` events; the
+ * stream ends on `onDetectionComplete` / `onDetectionCancelled` /
+ * `onDetectionError` or when the native promise settles, whichever comes
+ * first. Events from other jobs (e.g. one still winding down after a cancel)
+ * are ignored.
+ */
+function createNativeDetector(): Detector {
+  let nextJobId = 1;
+  const running = new Map<number, () => void>(); // job id -> stop
+
+  return {
+    name: 'native',
+    isAvailable: () => YoloDetector != null,
+    warmup: () => {
+      if (!YoloDetector) return Promise.reject(new Error('YoloDetector native module is not linked'));
+      return YoloDetector.warmup();
+    },
+    async classNames() {
+      const raw = await YoloDetector?.getClassNames?.();
+      const names: ClassNames = {};
+      for (const [id, name] of Object.entries(raw ?? {})) {
+        if (Number.isInteger(Number(id))) names[Number(id)] = name;
+      }
+      return Object.keys(names).length ? names : DEFAULT_CLASS_NAMES;
+    },
+    detectVideo(path: string, req: DetectRequest) {
+      const jobId = nextJobId++;
+      let stop: (() => void) | null = null;
+      const { stream, push, end, fail } = createFrameStream(() => stop?.());
+      if (!YoloDetector) {
+        fail(new Error('YoloDetector native module is not linked'));
+        return stream;
+      }
+      const mine = (e: JobEvent) => e?.jobId === jobId;
+      const subs = [
+        DeviceEventEmitter.addListener('onFrameDetected', (e: FrameDetections & JobEvent) => {
+          if (mine(e)) push({ t: e.t, boxes: e.boxes });
+        }),
+        DeviceEventEmitter.addListener('onDetectionComplete', (e: JobEvent) => { if (mine(e)) finish(); }),
+        DeviceEventEmitter.addListener('onDetectionCancelled', (e: JobEvent) => { if (mine(e)) finish(); }),
+        DeviceEventEmitter.addListener('onDetectionError', (e: (JobEvent & { message?: string }) | null) => {
+          if (mine(e)) finish(new Error(e?.message || 'Video processing failed'));
+        }),
+      ];
+      let settled = false;
+      const finish = (err?: unknown) => {
+        if (settled) return;
+        settled = true;
+        running.delete(jobId);
+        subs.forEach(s => s.remove());
+        if (err) fail(err); else end();
+      };
+      // Asks the decoder loop to stop and stops listening so no more frames are delivered.
+      stop = () => {
+        if (settled) return;
+        YoloDetector?.cancel?.(jobId);
+        finish();
+      };
+      running.set(jobId, stop);
+      YoloDetector.detectVideo(jobId, path, req.startSec, req.endSec, req.options)
+        .then(() => finish())
+        .catch(e => finish(e));
+      return stream;
+    },
+    cancel() {
+      [...running.values()].forEach(stop => stop());
+    },
+  };
+}
+
+// Native first; the replay backend takes over where the Android module is missing.
+registerDetector(createNativeDetector());
+registerDetector(createRecordedReplayDetector());
+
 /**
- * Kicks off the native video processing.
- * Results will be streamed via DeviceEventEmitter.
+ * Runs the active detector backend over [startSec, endSec] of the video.
+ * Frames are streamed as they are decoded; calling return() on the stream
+ * cancels this run only. Options are validated before the backend is touched,
+ * so bad settings fail fast with a readable message.
  */
-export async function runDetection(
+export function runDetection(
   videoPath: string,
-  fps: number,
   startSec: number,
   endSec: number,
-) {
-  await YoloDetector.warmup();
-  // Call the native method with all required arguments
-  return YoloDetector.detectVideo(videoPath, fps, startSec, endSec);
+  options: Partial<DetectionOptions> = {},
+): AsyncIterableIterator<FrameDetections> {
+  const validated = validateDetectionOptions(options);
+  if (!(endSec > startSec)) throw new Error('End time must be after start time.');
+  const detector = getDetector();
+  let job: AsyncIterableIterator<FrameDetections> | null = null;
+  let stopped = false;
+  const { stream, push, end, fail } = createFrameStream(() => {
+    stopped = true;
+    job?.return?.();
+  });
+  (async () => {
+    await detector.warmup();
+    if (stopped) return;
+    job = detector.detectVideo(videoPath, { startSec, endSec, options: validated });
+    for await (const frame of job) push(frame);
+    end();
+  })().catch(fail);
+  return stream;
+}
+
+/** Class names of the active backend's model; the default single class if it has none. */
+export async function getClassNames(): Promise<ClassNames> {
+  const detector = getDetector();
+  await detector.warmup();
+  return detector.classNames();
+}
+
+/**
+ * Capture and playback frame rates from the file's metadata, where the platform
+ * can read them; both null otherwise.
+ */
+export async function getVideoTiming(path: string): Promise<VideoTiming> {
+  try {
+    const t = await YoloDetector?.getVideoTiming?.(path);
+    return { captureFps: t?.captureFps ?? null, playbackFps: t?.playbackFps ?? null };
+  } catch (e) {
+    console.warn('Could not read video frame rates', e);
+    return { captureFps: null, playbackFps: null };
+  }
+}
+
+/** Stops every job of the active backend. */
+export function cancelDetection() {
+  try {
+    getDetector().cancel();
+  } catch {
+    // No backend, nothing to cancel.
+  }
 }
 
 /**
@@ -54,5 +200,5 @@ export function mapModelToVideo(b: Box, videoW: number, videoH: number) {
   const y = (b.y - padY) * inv;
   const width = b.width * inv;
   const height = b.height * inv;
-  return { x, y, width, height, confidence: b.confidence };
+  return { x, y, width, height, confidence: b.confidence, classId: b.classId };
 }
\ No newline at end of file
@@ -34,6 +34,7 @@ import { GoogleSignin, statusCodes } from '@react-native-google-signin/google-si
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { BlurView } from 'expo-blur';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useSpeedUnit, SPEED_UNITS, SPEED_UNIT_LABELS } from '../ml/units';
 
 GoogleSignin.configure({
   webClientId: 'YOUR_WEB_CLIENT_ID.apps.googleusercontent.com', // Replace with your actual Web Client ID
@@ -175,6 +176,7 @@ const AccountView = () => {
 // MARK: - Logged In View
 const LoggedInView = ({ user }) => {
   const [appearance, setAppearance] = useState('light');
+  const [speedUnit, setSpeedUnit] = useSpeedUnit();
 
   const memberSince = user.metadata?.creationTime 
     ? new Date(user.metadata.creationTime).toLocaleDateString('en-US', { year: 'numeric', month: 'long' })
@@ -227,6 +229,18 @@ const LoggedInView = ({ user }) => {
                     </TouchableOpacity>
                 ))}
             </View>
+            <Text style={styles.settingLabel}>Speed Unit</Text>
+            <View style={styles.segmentedControl}>
+                {SPEED_UNITS.map(unit => (
+                    <TouchableOpacity
+                        key={unit}
+                        style={[styles.segment, speedUnit === unit && styles.segmentActive]}
+                        onPress={() => setSpeedUnit(unit)}
+                    >
+                        <Text style={[styles.segmentText, speedUnit === unit && styles.segmentTextActive]}>{SPEED_UNIT_LABELS[unit]}</Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
             <View style={styles.divider} />
             <TouchableOpacity style={styles.settingRow}>
                 <Icon name="help-outline" size={22} color="#007AFF" />
@@ -504,6 +518,13 @@ const styles = StyleSheet.create({
     color: '#000',
     flex: 1,
   },
+  settingLabel: {
+    fontSize: 13,
+    color: '#3C3C43',
+    paddingHorizontal: 20,
+    paddingTop: 6,
+    paddingBottom: 6,
+  },
   divider: {
     height: StyleSheet.hairlineWidth,
     backgroundColor: 'rgba(60, 60, 67, 0.2)',
@@ -5,23 +5,50 @@ import {
   Text,
   TouchableOpacity,
   useWindowDimensions,
-  DeviceEventEmitter,
   ActivityIndicator,
   ScrollView,
   Platform,
   Alert,
   ImageBackground,
+  TextInput,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Video, { OnLoadData } from 'react-native-video';
-import { runDetection, mapModelToVideo, Box } from '../ml/yolo';
-import { pxPerSecToKph } from '../ml/kalman';
+import {
+  mapModelToVideo,
+  FrameDetections,
+  DetectionOptions,
+  DEFAULT_DETECTION_OPTIONS,
+  validateDetectionOptions,
+  getClassNames,
+  shuttleClassIds,
+  ClassNames,
+  DEFAULT_CLASS_NAMES,
+  getVideoTiming,
+} from '../ml/yolo';
+import { realTimeScale, analyzeFrameTiming, CAPTURE_FPS_CHOICES, PLAYBACK_FPS_CHOICES, VideoTiming } from '../ml/frameRate';
+import { proposeBoxes, InterpolationMode, INTERPOLATION_MODE_LABELS } from '../ml/interpolate';
+import { startDetectionSession, DetectionProgress } from '../ml/session';
+import { pxPerSecToKph, kalmanSpeedsPxPerSec, rtsSmooth } from '../ml/kalman';
+import { associateDetections, Association } from '../ml/track';
+import { estimateContactSpeed, FlightSample, ShuttleType, TERMINAL_VELOCITY_MPS } from '../ml/physics';
+import { estimateSpeedUncertainty } from '../ml/uncertainty';
+import { robustPeakSpeed } from '../ml/robust';
+import { detectContact } from '../ml/contact';
+import { splitRally } from '../ml/rally';
+import { applyHomography, homographyScale, Homography } from '../ml/homography';
+import { depthCorrectTrack, DepthModel } from '../ml/depth';
+import { shotAngle, formatShotAngle, ShotAngle } from '../ml/angle';
+import { useSpeedUnit, formatSpeed, formatSpeedValue, SPEED_UNIT_LABELS } from '../ml/units';
+import FrameMarkers from '../components/FrameMarkers';
 import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
 import Animated, { useSharedValue, useAnimatedStyle, withTiming } from 'react-native-reanimated';
 import Slider from '@react-native-community/slider';
 import HapticFeedback, { HapticFeedbackTypes } from 'react-native-haptic-feedback';
 import { HapticFeedbackTypes as HapticConstants } from 'react-native-haptic-feedback';
 import Ionicons from 'react-native-vector-icons/Ionicons'; // MODIFICATION: Import icons
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // --- Type Definitions ---
 type AnalyzeParams = {
@@ -29,13 +56,44 @@ type AnalyzeParams = {
   startSec: number;
   endSec: number;
   metersPerPixel: number;
+  calibrationPx?: number;
+  homography?: Homography; // video pixels -> court metres, from four-corner calibration
+  calibrationPreset?: string;
+  referenceLengthM?: number | null;
+  depth?: DepthModel; // scale by image row, from a second calibration reference
+  horizonDeg?: number; // image angle of the calibration line, used as the horizon for shot angles
+  mode?: 'single' | 'rally';
 };
-type FrameDetections = { t: number; boxes: Box[] };
 type VideoHandle = React.ElementRef<typeof Video>;
 type VBox = { x: number; y: number; width: number; height: number };
 type Selected = { type: 'ai'; idx: number } | { type: 'user'; idx: number };
 type EditMode = 'move' | 'resize';
-type UndoState = { frames: FrameDetections[], userBoxesByIndex: Record<number, VBox[]> };
+type SpeedMode = 'raw' | 'filtered' | 'smoothed';
+type PeakSource = 'fit' | SpeedMode; // the robust trajectory fit, or the per-frame curve it fell back to
+// How a frame counts towards speed: its box is used, it is left out, or its box
+// was filled in by interpolation (used, but counted as less certain).
+type FrameState = 'use' | 'ignore' | 'interpolated';
+type UndoState = { frames: FrameDetections[], userBoxesByIndex: Record<number, VBox[]>, frameStateByIndex: Record<number, FrameState> };
+
+// --- Speed Filtering ---
+// Process noise for the filtered mode is given as an acceleration in m/s^2 so it
+// scales with the calibration; measurement noise is box-centre jitter in pixels.
+const KALMAN_ACCEL_MPS2 = 400;
+const KALMAN_MEAS_NOISE_PX = 3;
+// Longest real-time gap bridged between detections. The shortest is half a
+// frame at the capture rate (see minDt), so high-frame-rate clips are not clamped.
+const MAX_DT = 0.5;
+// Faster than any recorded smash; the second point of a track must be within
+// this reach of the first, since no velocity is known yet to gate it.
+const MAX_SHUTTLE_MPS = 160;
+// Samples after the peak used to fit the drag model for the contact-speed estimate.
+const FLIGHT_FIT_SAMPLES = 10;
+const FPS_CHOICES = [0, 30, 60, 120, 240];
+// Once contact is found, the peak is searched only this many frames after it.
+const POST_CONTACT_FRAMES = 5;
+const ANGLE_FIT_FRAMES = 5; // frames after contact fitted for the shot angle
+// Frames either side of the peak that feed the accuracy estimate.
+const UNCERTAINTY_WINDOW = 2;
 
 // --- Haptic Feedback Options ---
 const hapticOptions = {
@@ -123,9 +181,14 @@ const GlowButton = ({ onPress, disabled, children }: { onPress: () => void, disa
 export default function AnalyzeScreen({ route, navigation }: any) {
   // --- Hooks and State ---
   const { width: screenW, height: screenH } = useWindowDimensions();
-  const { sourceUri, startSec, endSec, metersPerPixel } = route.params as AnalyzeParams;
+  const { sourceUri, startSec, endSec, metersPerPixel, calibrationPx, homography, calibrationPreset, referenceLengthM, depth, horizonDeg = 0, mode = 'single' } = route.params as AnalyzeParams;
 
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<DetectionProgress>({ decoded: 0, expected: null });
+  const [detectionError, setDetectionError] = useState<string | null>(null);
+  const [runId, setRunId] = useState(0);
+  const [fromCache, setFromCache] = useState(false);
+  const refreshNextRun = useRef(false);
   const [vw, setVw] = useState(0);
   const [vh, setVh] = useState(0);
   const [drawRect, setDrawRect] = useState({ x: 0, y: 0, w: screenW, h: Math.floor(screenH * 0.45) });
@@ -133,9 +196,24 @@ export default function AnalyzeScreen({ route, navigation }: any) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [pendingIndex, setPendingIndex] = useState<number | null>(null);
   const [userBoxesByIndex, setUserBoxesByIndex] = useState<Record<number, VBox[]>>({});
+  const [frameStateByIndex, setFrameStateByIndex] = useState<Record<number, FrameState>>({}); // missing = 'use'
   const [selected, setSelected] = useState<Selected | null>(null);
   const [showTuningControls, setShowTuningControls] = useState(false); // MODIFICATION: Closed by default
   const [editMode, setEditMode] = useState<EditMode>('move');
+  const [speedMode, setSpeedMode] = useState<SpeedMode>('filtered');
+  const [shuttleType, setShuttleType] = useState<ShuttleType>('feather');
+  const [detectionOptions, setDetectionOptions] = useState<DetectionOptions>(DEFAULT_DETECTION_OPTIONS);
+  const [draftOptions, setDraftOptions] = useState<DetectionOptions>(DEFAULT_DETECTION_OPTIONS);
+  const [classIdsText, setClassIdsText] = useState('');
+  const [classNames, setClassNames] = useState<ClassNames>(DEFAULT_CLASS_NAMES);
+  const [trackClassIds, setTrackClassIds] = useState<number[]>([0]);
+  const [showDetectionSettings, setShowDetectionSettings] = useState(false);
+  const [videoTiming, setVideoTiming] = useState<VideoTiming>({ captureFps: null, playbackFps: null });
+  const [statedCaptureFps, setStatedCaptureFps] = useState(0); // 0 = from the video's metadata
+  const [statedPlaybackFps, setStatedPlaybackFps] = useState(0); // 0 = from the video or the frame spacing
+  const [interpPreview, setInterpPreview] = useState(false);
+  const [interpMode, setInterpMode] = useState<InterpolationMode>('linear');
+  const [extrapolateEnds, setExtrapolateEnds] = useState(false);
 
   const [undoStack, setUndoStack] = useState<UndoState[]>([]);
   const [redoStack, setRedoStack] = useState<UndoState[]>([]);
@@ -152,6 +230,32 @@ export default function AnalyzeScreen({ route, navigation }: any) {
   const didAutoSeek = useRef(false);
 
   // --- Memos & Callbacks ---
+  useEffect(() => {
+    getClassNames()
+      .then(names => {
+        setClassNames(names);
+        setTrackClassIds(shuttleClassIds(names));
+      })
+      .catch(e => console.warn('Could not read model class names', e));
+  }, []);
+
+  const [speedUnitPref] = useSpeedUnit();
+
+  useEffect(() => {
+    getVideoTiming(sourceUri).then(setVideoTiming);
+  }, [sourceUri]);
+
+  useEffect(() => {
+    AsyncStorage.getItem('shuttleType')
+      .then(v => { if (v === 'feather' || v === 'nylon') setShuttleType(v); })
+      .catch(e => console.warn('Failed to read shuttle type', e));
+  }, []);
+
+  const chooseShuttleType = (t: ShuttleType) => {
+    setShuttleType(t);
+    AsyncStorage.setItem('shuttleType', t).catch(e => console.warn('Failed to save shuttle type', e));
+  };
+
   useEffect(() => {
     if (!vw || !vh) return;
     const maxW = screenW;
@@ -163,17 +267,18 @@ export default function AnalyzeScreen({ route, navigation }: any) {
   }, [vw, vh, screenW, screenH]);
 
   const saveUndoState = useCallback(() => {
-    setUndoStack(prev => [...prev, { frames, userBoxesByIndex }]);
+    setUndoStack(prev => [...prev, { frames, userBoxesByIndex, frameStateByIndex }]);
     setRedoStack([]);
-  }, [frames, userBoxesByIndex]);
+  }, [frames, userBoxesByIndex, frameStateByIndex]);
 
   const undo = () => {
     if (undoStack.length === 0) return;
     triggerHaptic('medium');
     const lastState = undoStack[undoStack.length - 1];
-    setRedoStack(prev => [...prev, { frames, userBoxesByIndex }]);
+    setRedoStack(prev => [...prev, { frames, userBoxesByIndex, frameStateByIndex }]);
     setFrames(lastState.frames);
     setUserBoxesByIndex(lastState.userBoxesByIndex);
+    setFrameStateByIndex(lastState.frameStateByIndex);
     setUndoStack(prev => prev.slice(0, -1));
   };
 
@@ -181,51 +286,114 @@ export default function AnalyzeScreen({ route, navigation }: any) {
     if (redoStack.length === 0) return;
     triggerHaptic('medium');
     const nextState = redoStack[redoStack.length - 1];
-    setUndoStack(prev => [...prev, { frames, userBoxesByIndex }]);
+    setUndoStack(prev => [...prev, { frames, userBoxesByIndex, frameStateByIndex }]);
     setFrames(nextState.frames);
     setUserBoxesByIndex(nextState.userBoxesByIndex);
+    setFrameStateByIndex(nextState.frameStateByIndex);
     setRedoStack(prev => prev.slice(0, -1));
   };
 
-  const loadDetections = useCallback(async () => {
+  const loadDetections = useCallback(() => {
     setIsLoading(true);
+    setDetectionError(null);
+    setFromCache(false);
+    setProgress({ decoded: 0, expected: null });
     setFrames([]);
     setCurrentIndex(0);
     setPendingIndex(null);
     setUserBoxesByIndex({});
+    setFrameStateByIndex({});
+    setInterpPreview(false);
     setSelected(null);
     setUndoStack([]);
     setRedoStack([]);
     didAutoSeek.current = false;
+    const refresh = refreshNextRun.current;
+    refreshNextRun.current = false;
+    const session = startDetectionSession(sourceUri, startSec, endSec, detectionOptions, {
+      onFrame: frame => setFrames(prev => [...prev, frame].sort((a, b) => a.t - b.t)),
+      onFrames: cached => setFrames([...cached].sort((a, b) => a.t - b.t)),
+      onProgress: setProgress,
+      onComplete: () => {
+        setIsLoading(false);
+        if (session.progress.decoded === 0) setDetectionError('No frames could be decoded from this part of the video.');
+      },
+      onError: e => {
+        console.warn('Detection error', e);
+        setIsLoading(false);
+        setDetectionError(e.message || 'Something went wrong while analyzing the video.');
+      },
+      onCacheHit: () => setFromCache(true),
+    }, { refresh });
+    return session;
+  }, [sourceUri, startSec, endSec, detectionOptions, runId]);
+
+  // Leaving the screen (or starting a new run) cancels the job in flight.
+  useEffect(() => {
+    const session = loadDetections();
+    return () => session.cancel();
+  }, [loadDetections]);
+
+  const retryDetection = () => {
+    triggerHaptic('medium');
+    setRunId(n => n + 1);
+  };
+
+  // Ignore the saved result for this clip and run the detector again.
+  const redetect = () => {
+    refreshNextRun.current = true;
+    retryDetection();
+  };
+
+  // Applying new settings changes loadDetections, which re-runs the effect above.
+  const rerunDetection = () => {
+    // Empty tokens are dropped rather than read as class 0; anything that is not
+    // a whole number becomes NaN so validation rejects it.
+    const classIds = classIdsText.trim()
+      ? classIdsText.split(',').map(s => s.trim()).filter(Boolean).map(s => (/^\d+$/.test(s) ? Number(s) : NaN))
+      : null;
     try {
-      await runDetection(sourceUri, 0, startSec, endSec);
+      const next = validateDetectionOptions({ ...draftOptions, classIds });
+      triggerHaptic('medium');
+      refreshNextRun.current = true;
+      setDraftOptions(next);
+      setDetectionOptions(next);
     } catch (e) {
-      console.warn('Detection error', e);
-    } finally {
-      setIsLoading(false);
+      Alert.alert('Invalid Settings', e instanceof Error ? e.message : String(e));
     }
-  }, [sourceUri, startSec, endSec]);
-
-  useEffect(() => {
-    const sub = DeviceEventEmitter.addListener('onFrameDetected', (frame: FrameDetections) => {
-      setFrames(prev => [...prev, frame].sort((a, b) => a.t - b.t));
-    });
-    loadDetections();
-    return () => sub.remove();
-  }, [loadDetections]);
+  };
 
-  const approxFps = useMemo(() => {
-    if (frames.length < 2) return 30;
-    const deltas = frames.slice(1).map((f, i) => Math.max(1, f.t - frames[i].t)).sort((a, b) => a - b);
-    const median = deltas[Math.floor(deltas.length / 2)] || 33.33;
-    const fps = 1000 / median;
-    return isFinite(fps) && fps > 1 ? fps : 30;
-  }, [frames]);
+  // Duplicate timestamps, dropped frames and uneven spacing between frames.
+  const frameTiming = useMemo(() => analyzeFrameTiming(frames.map(f => f.t)), [frames]);
+  const timingIssueCount = frameTiming.counts.duplicate + frameTiming.counts.gap + frameTiming.counts.vfr;
+
+  // Frames per second of playback; used to line frames up with the video.
+  const approxFps = frameTiming.nominalMs ? 1000 / frameTiming.nominalMs : 30;
+
+  // Real seconds per second of playback, below 1 for slow motion. Frame times
+  // are scaled by it before any speed maths. Stated rates win over the metadata,
+  // which many exports drop; without a playback rate from the file the frame
+  // spacing stands in, but only when every frame was decoded. Sampled frames
+  // without one leave a stated capture rate with nothing to compare against.
+  const playbackFps = statedPlaybackFps > 0
+    ? statedPlaybackFps
+    : videoTiming.playbackFps ?? (detectionOptions.fps === 0 ? approxFps : null);
+  const timeScale = useMemo(() => realTimeScale({
+    captureFps: statedCaptureFps > 0 ? statedCaptureFps : videoTiming.captureFps,
+    playbackFps,
+  }), [statedCaptureFps, videoTiming, playbackFps]);
+  const captureRateUnused = statedCaptureFps > 0 && playbackFps == null;
+  const captureFps = approxFps / timeScale; // analysed frames per real second
+  const minDt = 0.5 / captureFps;
 
   const seekToIndex = useCallback((idx: number) => {
     if (!frames.length) return;
     const clamped = Math.max(0, Math.min(idx, frames.length - 1));
-    const halfFrame = 1 / (approxFps * 2);
+    // Land half a step before the frame, using the real step where it is shorter
+    // than nominal so an uneven pair does not show the previous frame.
+    const nominalMs = 1000 / approxFps;
+    const stepMs = clamped > 0 ? frames[clamped].t - frames[clamped - 1].t : nominalMs;
+    const halfFrame = Math.min(stepMs > 0 ? stepMs : nominalMs, nominalMs) / 2000;
     const tSec = Math.max(0, frames[clamped].t / 1000 - halfFrame);
     setPendingIndex(clamped);
     setSelected(null);
@@ -254,11 +422,81 @@ export default function AnalyzeScreen({ route, navigation }: any) {
     }
   }, [frames, seekToIndex]);
 
+  const kalmanQ = useMemo(
+    () => (metersPerPixel > 0 ? Math.pow(KALMAN_ACCEL_MPS2 / metersPerPixel, 2) : 5e-2),
+    [metersPerPixel],
+  );
+
+  const isTrackClass = useCallback((classId: number) => trackClassIds.includes(classId), [trackClassIds]);
+
+  // One candidate per frame, chosen by how well it continues the trajectory.
+  // Only boxes of the tracked class are candidates; `chosen` indexes frames[i].boxes.
+  const associations: Association[] = useMemo(() => {
+    if (!vw || !vh || frames.length === 0) return [];
+    const candidateIdx = frames.map(f => f.boxes.map((b, k) => (isTrackClass(b.classId) ? k : -1)).filter(k => k >= 0));
+    return associateDetections(frames.map((f, i) => {
+      const ub = (userBoxesByIndex[i] || [])[0];
+      return {
+        tSec: (f.t / 1000) * timeScale,
+        candidates: candidateIdx[i].map(k => {
+          const m = mapModelToVideo(f.boxes[k], vw, vh);
+          return { x: m.x + m.width / 2, y: m.y + m.height / 2 };
+        }),
+        user: ub ? { x: ub.x + ub.width / 2, y: ub.y + ub.height / 2 } : null,
+        ignored: frameStateByIndex[i] === 'ignore',
+      };
+    }), {
+      q: kalmanQ,
+      r: KALMAN_MEAS_NOISE_PX,
+      maxGapSec: MAX_DT,
+      maxSpeedPxPerSec: metersPerPixel > 0 ? MAX_SHUTTLE_MPS / metersPerPixel : undefined,
+    }).map((a, i) => (a.chosen != null ? { ...a, chosen: candidateIdx[i][a.chosen] } : a));
+  }, [frames, vw, vh, userBoxesByIndex, frameStateByIndex, kalmanQ, isTrackClass, timeScale, metersPerPixel]);
+
+  // The AI box the tracker picked for a frame, in video pixels.
+  const chosenAiBox = useCallback((i: number): VBox | null => {
+    const chosen = associations[i]?.chosen;
+    const b = chosen != null ? frames[i]?.boxes[chosen] : undefined;
+    if (!b || !vw || !vh) return null;
+    const { x, y, width, height } = mapModelToVideo(b, vw, vh);
+    return { x, y, width, height };
+  }, [associations, frames, vw, vh]);
+
   const current = frames.length ? frames[Math.max(0, Math.min(currentIndex, frames.length - 1))] : null;
   const detectedVideoBoxes = useMemo(() => {
     if (!current || !vw || !vh) return [];
-    return current.boxes.map(b => mapModelToVideo(b, vw, vh)).slice(0, 1);
+    return current.boxes.map(b => mapModelToVideo(b, vw, vh));
   }, [current, vw, vh]);
+  const currentAssociation = associations[currentIndex];
+  const timingLabel = useMemo(() => {
+    const step = currentIndex > 0 && frames[currentIndex] && frames[currentIndex - 1]
+      ? frames[currentIndex].t - frames[currentIndex - 1].t
+      : 0;
+    switch (frameTiming.issues[currentIndex]) {
+      case 'duplicate': return 'Timing: same timestamp as the previous frame, ignored for speed';
+      case 'gap': {
+        const n = frameTiming.droppedBefore[currentIndex];
+        return `Timing: about ${n} frame${n === 1 ? '' : 's'} dropped before this one (${step.toFixed(0)} ms step)`;
+      }
+      case 'vfr': return `Timing: uneven step of ${step.toFixed(0)} ms (usually ${(frameTiming.nominalMs ?? 0).toFixed(0)} ms)`;
+      default: return '';
+    }
+  }, [frameTiming, frames, currentIndex]);
+
+  const associationLabel = useMemo(() => {
+    const a = currentAssociation;
+    if (!a) return '';
+    const n = a.chosen != null ? a.chosen + 1 : 0;
+    const d2 = a.d2 != null ? a.d2.toFixed(1) : '--';
+    switch (a.reason) {
+      case 'user': return 'Using your edited box';
+      case 'init': return `Box ${n} chosen: most confident (track start)`;
+      case 'nearest': return `Box ${n} chosen: nearest to previous position`;
+      case 'gated': return `Box ${n} chosen: closest to predicted path (d² ${d2})`;
+      case 'miss': return `Miss: no box near predicted path (best d² ${d2})`;
+      case 'empty': return 'No detections on this frame';
+    }
+  }, [currentAssociation]);
   const userVideoBoxes: VBox[] = userBoxesByIndex[currentIndex] || [];
   const videoToScreenScale = useMemo(() => (!vw || !vh) ? 1 : Math.min(drawRect.w / vw, drawRect.h / vh), [drawRect, vw, vh]);
   const toScreen = (b: VBox) => ({
@@ -268,21 +506,52 @@ export default function AnalyzeScreen({ route, navigation }: any) {
     height: b.height * videoToScreenScale,
   });
 
-  const centers: ({ x: number; y: number; tSec: number } | null)[] = useMemo(() => {
+  // Box centres in video pixels, as seen in the frame.
+  const imageCenters: ({ x: number; y: number; tSec: number } | null)[] = useMemo(() => {
     if (!vw || !vh || frames.length === 0) return [];
     return frames.map((f, i) => {
+      // A repeated timestamp carries no time, so the frame gives no speed; ignored
+      // frames are left out of speed, peak and angle alike.
+      if (frameTiming.issues[i] === 'duplicate' || frameStateByIndex[i] === 'ignore') return null;
       const ub = (userBoxesByIndex[i] || [])[0];
-      if (ub) return { x: ub.x + ub.width / 2, y: ub.y + ub.height / 2, tSec: f.t / 1000 };
-      if (!f.boxes.length) return null;
-      const top = mapModelToVideo(f.boxes[0], vw, vh);
-      return { x: top.x + top.width / 2, y: top.y + top.height / 2, tSec: f.t / 1000 };
+      const tSec = (f.t / 1000) * timeScale;
+      if (ub) return { x: ub.x + ub.width / 2, y: ub.y + ub.height / 2, tSec };
+      const top = chosenAiBox(i);
+      if (!top) return null;
+      return { x: top.x + top.width / 2, y: top.y + top.height / 2, tSec };
+    });
+  }, [frames, vw, vh, userBoxesByIndex, frameStateByIndex, chosenAiBox, timeScale, frameTiming]);
+
+  // Shorter side of the box behind each centre, in video pixels.
+  const imageSizes = useMemo(() => imageCenters.map((c, i) => {
+    if (!c) return null;
+    const b = (userBoxesByIndex[i] || [])[0] ?? chosenAiBox(i);
+    return b ? Math.min(b.width, b.height) : null;
+  }), [imageCenters, userBoxesByIndex, chosenAiBox]);
+
+  // Centres for the speed maths. With a court homography they are moved onto
+  // the court plane and divided by metersPerPixel, so everything downstream keeps
+  // working in "pixels" whose size no longer depends on where they are in the frame.
+  const rawCenters = useMemo(() => {
+    if (!homography || !(metersPerPixel > 0)) return imageCenters;
+    return imageCenters.map(c => {
+      if (!c) return null;
+      const m = applyHomography(homography, c);
+      return { x: m.x / metersPerPixel, y: m.y / metersPerPixel, tSec: c.tSec };
     });
-  }, [frames, vw, vh, userBoxesByIndex]);
+  }, [imageCenters, homography, metersPerPixel]);
 
-  const speedsKph: (number | null)[] = useMemo(() => {
+  // Depth correction rescales the track to the depth of the shot: the player's
+  // feet when the player was marked, else the shuttle's apparent size.
+  const depthCorrection = useMemo(() => {
+    if (!depth || homography) return null;
+    return depthCorrectTrack(rawCenters, depth, metersPerPixel, { sizesPx: imageSizes, frameHeight: vh });
+  }, [depth, homography, metersPerPixel, rawCenters, imageSizes, vh]);
+  const centers = depthCorrection ? depthCorrection.track : rawCenters;
+
+  const rawSpeedsKph: (number | null)[] = useMemo(() => {
     const out: (number | null)[] = new Array(centers.length).fill(null);
     if (centers.length < 2) return out;
-    const MIN_DT = 1 / 240, MAX_DT = 0.5;
     let lastIdx: number | null = null;
     for (let i = 0; i < centers.length; i++) {
       const c = centers[i];
@@ -291,50 +560,216 @@ export default function AnalyzeScreen({ route, navigation }: any) {
       const p = centers[lastIdx];
       if (!p) { lastIdx = i; continue; }
       let dt = c.tSec - p.tSec;
-      dt = Math.max(MIN_DT, Math.min(dt, MAX_DT));
+      dt = Math.max(minDt, Math.min(dt, MAX_DT));
       const pxPerSec = Math.hypot(c.x - p.x, c.y - p.y) / dt;
       out[i] = pxPerSecToKph(pxPerSec, metersPerPixel);
       lastIdx = i;
     }
     return out;
-  }, [centers, metersPerPixel]);
-
-  const currentSpeedKph = useMemo(() => {
-    if (!speedsKph.length) return null;
-    for (let i = currentIndex; i >= 0; i--) {
-      const v = speedsKph[i];
+  }, [centers, metersPerPixel, minDt]);
+
+  const filteredSpeedsKph: (number | null)[] = useMemo(() => {
+    if (!(metersPerPixel > 0)) return new Array(centers.length).fill(null);
+    return kalmanSpeedsPxPerSec(centers, kalmanQ, KALMAN_MEAS_NOISE_PX, MAX_DT)
+      .map(v => (v == null ? null : pxPerSecToKph(v, metersPerPixel)));
+  }, [centers, metersPerPixel, kalmanQ]);
+
+  // Offline RTS smoothing: every frame is conditioned on the whole clip, so the
+  // frames right after contact are not left to an unconverged forward filter.
+  const smoothedSpeedsKph: (number | null)[] = useMemo(() => {
+    if (!(metersPerPixel > 0)) return new Array(centers.length).fill(null);
+    const states = rtsSmooth(centers, kalmanQ, KALMAN_MEAS_NOISE_PX, MAX_DT);
+    return states.map((st, i) => (st && centers[i] ? pxPerSecToKph(Math.hypot(st.vx, st.vy), metersPerPixel) : null));
+  }, [centers, metersPerPixel, kalmanQ]);
+
+  const speedsKph = speedMode === 'filtered' ? filteredSpeedsKph : speedMode === 'smoothed' ? smoothedSpeedsKph : rawSpeedsKph;
+
+  const speedAtOrBefore = (series: (number | null)[], idx: number) => {
+    for (let i = Math.min(idx, series.length - 1); i >= 0; i--) {
+      const v = series[i];
       if (Number.isFinite(v as number)) return v as number;
     }
     return null;
-  }, [speedsKph, currentIndex]);
-  const speedLabel = currentSpeedKph != null ? `${currentSpeedKph.toFixed(0)}` : 'N/A';
-  const speedUnit = currentSpeedKph != null ? 'km/h' : '';
+  };
+
+  const currentSpeedKph = useMemo(() => speedAtOrBefore(speedsKph, currentIndex), [speedsKph, currentIndex]);
+  const currentRawKph = speedAtOrBefore(rawSpeedsKph, currentIndex);
+  const currentFilteredKph = speedAtOrBefore(filteredSpeedsKph, currentIndex);
+  const currentSmoothedKph = speedAtOrBefore(smoothedSpeedsKph, currentIndex);
+  const speedLabel = currentSpeedKph != null ? formatSpeedValue(currentSpeedKph, speedUnitPref, 0) : 'N/A';
+  const speedUnit = currentSpeedKph != null ? SPEED_UNIT_LABELS[speedUnitPref] : '';
+
+  // Local trajectory fits with outlier rejection; the peak comes from the fitted
+  // curve so one mis-placed box cannot win.
+  const trackFit = useMemo(() => robustPeakSpeed(centers, { maxGapSec: MAX_DT }), [centers]);
+
+  // Racket contact from the sharpest turn and speed-up of the inlier track.
+  const contact = useMemo(
+    () => detectContact(centers.map((c, i) => (trackFit.rejected[i] ? null : c)), { maxGapSec: MAX_DT }),
+    [centers, trackFit],
+  );
+
+  // Rally mode: one shot per hit, each measured after its own contact.
+  const rally = useMemo(
+    () => (mode === 'rally' ? splitRally(centers, { maxGapSec: MAX_DT, postContactFrames: POST_CONTACT_FRAMES }) : null),
+    [mode, centers],
+  );
+
+  // Refit with windows that stop at contact so the incoming flight does not
+  // bend the speeds just after it.
+  const robustPeak = useMemo(() => {
+    if (rally) return rally.fit;
+    return robustPeakSpeed(centers, { maxGapSec: MAX_DT, breaks: contact ? [contact.index] : [] });
+  }, [rally, centers, contact]);
+  const rejectedCount = useMemo(() => robustPeak.rejected.filter(Boolean).length, [robustPeak]);
+
+  const shots = useMemo(() => {
+    if (!rally || !(metersPerPixel > 0)) return [];
+    return rally.shots
+      .filter(shot => shot.peakIndex >= 0 && frames[shot.startIndex] && frames[shot.endIndex])
+      .map(shot => ({
+        ...shot,
+        maxKph: pxPerSecToKph(shot.peakPxPerSec, metersPerPixel),
+        startSec: frames[shot.startIndex].t / 1000,
+        endSec: frames[shot.endIndex].t / 1000,
+        angle: shotAngle(imageCenters, shot.contactIndex != null ? shot.contactIndex + 1 : shot.startIndex, {
+          frames: ANGLE_FIT_FRAMES,
+          maxGapSec: MAX_DT,
+          horizonDeg,
+          skip: rally.fit.rejected,
+        }),
+      }));
+  }, [rally, metersPerPixel, frames, imageCenters, horizonDeg]);
+
+  const sliderMarkers = useMemo(() => {
+    const markers = frameTiming.issues.flatMap((issue, index) => (issue ? [{ index, color: '#FF9500' }] : []));
+    Object.entries(frameStateByIndex).forEach(([k, st]) => { if (st === 'ignore') markers.push({ index: Number(k), color: '#8E8E93' }); });
+    robustPeak.rejected.forEach((r, index) => { if (r) markers.push({ index, color: '#FF3B30' }); });
+    if (rally) {
+      rally.shots.forEach(shot => { if (shot.contactIndex != null) markers.push({ index: shot.contactIndex, color: '#34C759' }); });
+    } else if (contact) {
+      markers.push({ index: contact.index, color: '#34C759' });
+    }
+    return markers;
+  }, [frameTiming, frameStateByIndex, robustPeak, rally, contact]);
 
   const maxSpeed = useMemo(() => {
+    // Speed is reported from the frames just after contact when it was found.
+    const from = contact ? contact.index + 1 : 0;
+    const to = contact ? Math.min(centers.length - 1, contact.index + POST_CONTACT_FRAMES) : centers.length - 1;
+
+    if (metersPerPixel > 0) {
+      let peakIndex = -1;
+      for (let i = from; i <= to; i++) {
+        const s = robustPeak.speedsPxPerSec[i];
+        if (s != null && (peakIndex < 0 || s > (robustPeak.speedsPxPerSec[peakIndex] as number))) peakIndex = i;
+      }
+      if (peakIndex >= 0) {
+        const source: PeakSource = 'fit';
+        return { maxKph: pxPerSecToKph(robustPeak.speedsPxPerSec[peakIndex] as number, metersPerPixel), atIndex: peakIndex, source };
+      }
+    }
+
+    // Too few frames to fit: fall back to the largest speed of the selected curve.
     let best = { maxKph: -Infinity, atIndex: -1 };
   
-    for (let i = 0; i < speedsKph.length; i++) {
+    for (let i = from; i <= to && i < speedsKph.length; i++) {
       const v = speedsKph[i];
-      if (Number.isFinite(v as number) && (v as number) > best.maxKph) {
+      if (Number.isFinite(v as number) && (v as number) > best.maxKph && !robustPeak.rejected[i]) {
         best = { maxKph: v as number, atIndex: i };
       }
     }
-  
-    // Calculate angle at max speed frame
-    let angle = 0;
-    if (best.atIndex >= 0 && best.atIndex < centers.length - 1) {
-      const current = centers[best.atIndex];
-      const next = centers[best.atIndex + 1];
-      if (current && next) {
-        const dx = next.x - current.x;
-        const dy = next.y - current.y;
-        angle = Math.atan2(dy, dx) * (180 / Math.PI);
-        if (angle < 0) angle += 360; // normalize to 0-360
+
+    const source: PeakSource = speedMode;
+    return best.maxKph === -Infinity ? null : { ...best, source };
+  }, [robustPeak, contact, metersPerPixel, speedsKph, speedMode, centers]);
+
+  // Descent angle from a line through the frames after contact, in the image
+  // (the court-plane track has no up or down). Without a contact the fit
+  // starts just before the peak.
+  const peakAngle: ShotAngle | null = useMemo(() => {
+    if (!maxSpeed) return null;
+    const from = contact ? contact.index + 1 : Math.max(0, maxSpeed.atIndex - 2);
+    return shotAngle(imageCenters, from, { frames: ANGLE_FIT_FRAMES, maxGapSec: MAX_DT, horizonDeg, skip: robustPeak.rejected });
+  }, [maxSpeed, contact, imageCenters, horizonDeg, robustPeak]);
+
+  // Fit the drag model from the first frame after contact (or the frame before
+  // the peak) onwards and extrapolate back to the contact instant; the measured
+  // peak is already past it. Rally shots use the same fit with their own contact.
+  const contactEstimateFor = useCallback((peakIndex: number, contactIndex: number | null) => {
+    if (!(metersPerPixel > 0)) return null;
+    let start = contactIndex != null ? contactIndex + 1 : peakIndex - 1;
+    while (contactIndex == null && start > 0 && !centers[start]) start--;
+    const samples: FlightSample[] = [];
+    for (let i = Math.max(0, start); i < centers.length && samples.length < FLIGHT_FIT_SAMPLES; i++) {
+      const c = centers[i];
+      if (c && !robustPeak.rejected[i]) samples.push({ tSec: c.tSec, x: c.x * metersPerPixel, y: c.y * metersPerPixel });
+    }
+    const contactTSec = contactIndex != null ? centers[contactIndex]?.tSec : undefined;
+    // Court-plane centres have depth on y, not height, so gravity does not apply.
+    const est = estimateContactSpeed(samples, TERMINAL_VELOCITY_MPS[shuttleType], contactTSec, { gravity: !homography });
+    return est ? { kph: est.initialMps * 3.6, contactTSec: est.contactTSec } : null;
+  }, [centers, metersPerPixel, shuttleType, robustPeak, homography]);
+  const contactEstimate = useMemo(
+    () => (maxSpeed ? contactEstimateFor(maxSpeed.atIndex, contact ? contact.index : null) : null),
+    [maxSpeed, contact, contactEstimateFor],
+  );
+
+  // Error budget for a peak from the frames around it.
+  const uncertaintyFor = useCallback((peak: number, speedKph: number) => {
+    if (!(metersPerPixel > 0)) return null;
+    let prev = peak - 1;
+    while (prev >= 0 && !centers[prev]) prev--;
+    const c = centers[peak];
+    const p = prev >= 0 ? centers[prev] : null;
+    const frameIntervalSec = c && p ? Math.max(minDt, Math.min(c.tSec - p.tSec, MAX_DT)) : 1 / captureFps;
+
+    // Box sizes in the units of `centers`: court units with a homography,
+    // depth-scaled pixels with depth correction.
+    const toTrackUnits = (sizePx: number, i: number) => {
+      const ic = imageCenters[i];
+      if (homography && ic) return (sizePx * homographyScale(homography, ic)) / metersPerPixel;
+      return sizePx * (depthCorrection ? depthCorrection.factor : 1);
+    };
+    const confidences: number[] = [];
+    const sizes: number[] = [];
+    const neighbourSpeedsKph: number[] = [];
+    let interpolatedFrames = 0;
+    for (let i = Math.max(0, peak - UNCERTAINTY_WINDOW); i <= Math.min(frames.length - 1, peak + UNCERTAINTY_WINDOW); i++) {
+      if (robustPeak.rejected[i] || frameStateByIndex[i] === 'ignore') continue;
+      const v = speedsKph[i];
+      if (v != null && Number.isFinite(v)) neighbourSpeedsKph.push(v);
+      const ub = userBoxesByIndex[i]?.[0];
+      if (ub) {
+        if (frameStateByIndex[i] === 'interpolated') interpolatedFrames++;
+        sizes.push(toTrackUnits(Math.sqrt(ub.width * ub.height), i));
+        continue;
+      }
+      const chosen = associations[i]?.chosen;
+      const b = chosen != null ? frames[i]?.boxes[chosen] : undefined;
+      const vb = chosenAiBox(i);
+      if (b && vb) {
+        confidences.push(b.confidence);
+        sizes.push(toTrackUnits(Math.sqrt(vb.width * vb.height), i));
       }
     }
-  
-    return best.maxKph === -Infinity ? null : { ...best, angle };
-  }, [speedsKph, centers]);
+    const mean = (a: number[]) => (a.length ? a.reduce((x, y) => x + y, 0) / a.length : null);
+
+    return estimateSpeedUncertainty({
+      speedKph,
+      metersPerPixel,
+      calibrationPx: calibrationPx ?? null,
+      frameIntervalSec,
+      boxConfidence: mean(confidences),
+      boxSizePx: mean(sizes),
+      interpolatedFrames,
+      neighbourSpeedsKph,
+    });
+  }, [metersPerPixel, calibrationPx, centers, imageCenters, homography, depthCorrection, minDt, captureFps, frames, speedsKph, userBoxesByIndex, frameStateByIndex, associations, chosenAiBox, robustPeak]);
+  const peakUncertainty = useMemo(
+    () => (maxSpeed ? uncertaintyFor(maxSpeed.atIndex, maxSpeed.maxKph) : null),
+    [maxSpeed, uncertaintyFor],
+  );
   
   // In AnalyzeScreen.tsx
 
@@ -343,10 +778,15 @@ const finish = () => {
 
   // --- START: Added Code ---
   // Construct the detailed frame data for upload
-  const frameDataForUpload = frames.map((frame, i) => {
+  const contactIndices = rally
+    ? rally.shots.flatMap(shot => (shot.contactIndex != null ? [shot.contactIndex] : []))
+    : contact ? [contact.index] : [];
+  const frameEntries = frames.map((frame, i) => {
+    const frameState = frameStateByIndex[i] ?? 'use';
     const speedKPH = speedsKph[i];
-    // Skip any frames that don't have a valid speed calculated
-    if (speedKPH === null || !Number.isFinite(speedKPH)) {
+    // Skip any frames that don't have a valid speed calculated. Ignored frames
+    // are kept (without a speed) so the upload records what was left out.
+    if (frameState !== 'ignore' && (speedKPH === null || !Number.isFinite(speedKPH))) {
       return null;
     }
 
@@ -356,31 +796,91 @@ const finish = () => {
     if (userBox) {
       // Prioritize the user-edited box if it exists
       boundingBox = userBox;
-    } else if (frame.boxes.length > 0 && vw > 0 && vh > 0) {
-      // Fall back to the first AI-detected box
-      boundingBox = mapModelToVideo(frame.boxes[0], vw, vh);
+    } else {
+      // Fall back to the AI box the tracker chose
+      boundingBox = chosenAiBox(i);
     }
 
-    // Skip any frames where no bounding box could be found
-    if (!boundingBox) {
+    // Skip any frames where no bounding box could be found; ignored frames are
+    // kept without one.
+    if (!boundingBox && frameState !== 'ignore') {
       return null;
     }
 
     return {
       timestamp: frame.t / 1000, // Convert from ms to seconds
-      speedKPH: speedKPH,
+      speedKPH: frameState === 'ignore' ? null : speedKPH,
+      frameState,
+      rawSpeedKPH: rawSpeedsKph[i],
+      filteredSpeedKPH: filteredSpeedsKph[i],
+      smoothedSpeedKPH: smoothedSpeedsKph[i],
+      isContact: contactIndices.includes(i),
       boundingBox: boundingBox,
     };
-  }).filter(Boolean); // Remove any null entries from the array
+  });
+  const frameDataForUpload = frameEntries.filter(Boolean); // Remove any null entries from the array
   // --- END: Added Code ---
 
+  // Rally mode: each shot carries its own range and frames so it can be saved on its own.
+  const halfFrame = 1 / (approxFps * 2);
+  const shotResults = shots.map(shot => {
+    const estimate = contactEstimateFor(shot.peakIndex, shot.contactIndex);
+    const uncertainty = uncertaintyFor(shot.peakIndex, shot.maxKph);
+    return {
+      maxKph: shot.maxKph,
+      angle: shot.angle ? shot.angle.degrees : null,
+      shotKind: shot.angle ? shot.angle.kind : null,
+      estimatedInitialKph: estimate ? estimate.kph : null,
+      uncertaintyKph: uncertainty ? uncertainty.plusMinusKph : null,
+      accuracyGrade: uncertainty ? uncertainty.grade : null,
+      depthCorrection: depthCorrection?.factor ?? null,
+      startSec: Math.max(0, shot.startSec - halfFrame),
+      endSec: shot.endSec + halfFrame,
+      frameData: frameEntries.slice(shot.startIndex, shot.endIndex + 1).filter(Boolean),
+    };
+  });
+
+  if (mode === 'rally') {
+    const fastest = shotResults.reduce<typeof shotResults[number] | null>((best, shot) => (!best || shot.maxKph > best.maxKph ? shot : best), null);
+    navigation.navigate('SpeedResult', {
+      maxKph: fastest ? fastest.maxKph : 0,
+      angle: fastest ? fastest.angle : null,
+      shotKind: fastest ? fastest.shotKind : null,
+      peakSource: 'fit',
+      frameSpeedMode: speedMode,
+      estimatedInitialKph: fastest ? fastest.estimatedInitialKph : null,
+      uncertaintyKph: fastest ? fastest.uncertaintyKph : null,
+      accuracyGrade: fastest ? fastest.accuracyGrade : null,
+      shuttleType,
+      videoUri: sourceUri,
+      startSec,
+      endSec,
+      frameData: frameDataForUpload,
+      shots: shotResults,
+      calibrationPreset,
+      referenceLengthM,
+      depthCorrection: fastest ? fastest.depthCorrection : null,
+    });
+    return;
+  }
+
   navigation.navigate('SpeedResult', {
     maxKph: maxSpeed ? maxSpeed.maxKph : 0,
-    angle: maxSpeed ? maxSpeed.angle : 0,
+    angle: peakAngle ? peakAngle.degrees : null,
+    shotKind: peakAngle ? peakAngle.kind : null,
+    peakSource: maxSpeed ? maxSpeed.source : null,
+    frameSpeedMode: speedMode,
+    estimatedInitialKph: contactEstimate ? contactEstimate.kph : null,
+    uncertaintyKph: peakUncertainty ? peakUncertainty.plusMinusKph : null,
+    accuracyGrade: peakUncertainty ? peakUncertainty.grade : null,
+    shuttleType,
     videoUri: sourceUri,
     startSec,
     endSec,
     frameData: frameDataForUpload, // Pass the newly constructed data
+    calibrationPreset,
+    referenceLengthM,
+    depthCorrection: depthCorrection?.factor ?? null,
   });
 };
   
@@ -395,9 +895,22 @@ const finish = () => {
     return { x, y, width, height };
   };
 
+  // An edited interpolated box is the user's own from then on; ignored frames stay ignored.
+  const markEdited = () => {
+    setFrameStateByIndex(prev => (prev[currentIndex] === 'interpolated' ? { ...prev, [currentIndex]: 'use' } : prev));
+  };
+
+  const setFrameState = (state: FrameState) => {
+    if ((frameStateByIndex[currentIndex] ?? 'use') === state) return;
+    triggerHaptic('light');
+    saveUndoState();
+    setFrameStateByIndex(prev => ({ ...prev, [currentIndex]: state }));
+  };
+
   const updateUserBoxes = (transform: (boxes: VBox[]) => VBox[], saveState = true) => {
     if (saveState) saveUndoState();
     setUserBoxesByIndex(prev => ({ ...prev, [currentIndex]: transform(prev[currentIndex] ?? []) }));
+    markEdited();
   };
 
   const addBox = () => {
@@ -431,84 +944,49 @@ const finish = () => {
   const isInterpolationRecommended = useMemo(() => {
     if (frames.length < 3) return false;
     let inGap = false;
+    // An ignored frame is a deliberate hole, not a gap to fill.
+    const hasBox = (i: number) => frameStateByIndex[i] === 'ignore' || !!(userBoxesByIndex[i]?.[0]) || !!chosenAiBox(i);
     for (let i = 0; i < frames.length - 1; i++) {
-      const currentHasBox = !!(userBoxesByIndex[i]?.[0]) || !!(frames[i]?.boxes?.[0]);
-      const nextHasBox = !!(userBoxesByIndex[i + 1]?.[0]) || !!(frames[i + 1]?.boxes?.[0]);
+      const currentHasBox = hasBox(i);
+      const nextHasBox = hasBox(i + 1);
       if (currentHasBox && !nextHasBox) inGap = true;
       if (inGap && nextHasBox) return true;
     }
     return false;
-  }, [frames, userBoxesByIndex]);
+  }, [frames, userBoxesByIndex, frameStateByIndex, chosenAiBox]);
+
+  // Boxes the chosen interpolation would add. They are only previewed until the
+  // user accepts them.
+  const proposedBoxes: Record<number, VBox> = useMemo(() => {
+    if (!interpPreview || !vw || !vh) return {};
+    const ignored = (i: number) => frameStateByIndex[i] === 'ignore';
+    const proposed = proposeBoxes(
+      frames.map(f => (f.t / 1000) * timeScale),
+      frames.map((_, i) => (ignored(i) ? null : userBoxesByIndex[i]?.[0] ?? chosenAiBox(i))),
+      { mode: interpMode, extrapolate: extrapolateEnds, bounds: { width: vw, height: vh } },
+    );
+    Object.keys(proposed).forEach(k => { if (ignored(Number(k))) delete proposed[Number(k)]; });
+    return proposed;
+  }, [interpPreview, interpMode, extrapolateEnds, frames, timeScale, userBoxesByIndex, frameStateByIndex, chosenAiBox, vw, vh]);
+  const proposedCount = Object.keys(proposedBoxes).length;
+  const proposedMarkers = useMemo(
+    () => Object.keys(proposedBoxes).map(k => ({ index: Number(k), color: '#A259FF' })),
+    [proposedBoxes],
+  );
 
-  const interpolateFrames = () => {
+  const acceptInterpolation = () => {
+    setInterpPreview(false);
+    if (!proposedCount) return;
     triggerHaptic('heavy');
     saveUndoState();
     const tempUserBoxes = { ...userBoxesByIndex };
-
-    // Helper function to safely get a box for a given frame index
-    const getBoxForIndex = (index: number): VBox | null => {
-      // Prioritize an existing user-edited box
-      const userBox = tempUserBoxes[index]?.[0];
-      if (userBox) {
-        return userBox;
-      }
-
-      // Fall back to the first AI-detected box
-      const aiBox = frames[index]?.boxes?.[0];
-      // *** FIX IS HERE: ***
-      // Only call mapModelToVideo if an AI box actually exists on this frame.
-      if (aiBox) {
-        return mapModelToVideo(aiBox, vw, vh);
-      }
-
-      // Return null if no box of any kind is found
-      return null;
-    };
-
-    let i = 0;
-    while (i < frames.length - 1) {
-      const startBox = getBoxForIndex(i);
-
-      if (startBox) {
-        let endIndex = -1;
-        // Find the next frame that has any kind of box
-        for (let j = i + 1; j < frames.length; j++) {
-          if (getBoxForIndex(j)) {
-            endIndex = j;
-            break;
-          }
-        }
-
-        // Check if there is a gap of at least one frame to fill
-        if (endIndex > i + 1) {
-          const endBox = getBoxForIndex(endIndex);
-
-          if (endBox) { // Should always be true, but a good safety check
-            const gapLength = endIndex - i;
-            for (let k = i + 1; k < endIndex; k++) {
-              // Check if the frame in the gap is truly empty before filling it
-              if (!getBoxForIndex(k)) {
-                const t = (k - i) / gapLength;
-                const interpolatedBox: VBox = {
-                  x: startBox.x + t * (endBox.x - startBox.x),
-                  y: startBox.y + t * (endBox.y - startBox.y),
-                  width: startBox.width + t * (endBox.width - startBox.width),
-                  height: startBox.height + t * (endBox.height - startBox.height),
-                };
-                tempUserBoxes[k] = [interpolatedBox];
-              }
-            }
-          }
-          // Jump the loop to the end of the gap we just filled
-          i = endIndex;
-        } else {
-          i++;
-        }
-      } else {
-        i++;
-      }
+    const tempStates = { ...frameStateByIndex };
+    for (const [k, box] of Object.entries(proposedBoxes)) {
+      tempUserBoxes[Number(k)] = [box];
+      tempStates[Number(k)] = 'interpolated';
     }
     setUserBoxesByIndex(tempUserBoxes);
+    setFrameStateByIndex(tempStates);
   };
 
   // src/screens/AnalyzeScreen.tsx
@@ -547,6 +1025,7 @@ const finish = () => {
       
       // Update all relevant states at once
       setUserBoxesByIndex(prev => ({ ...prev, [currentIndex]: newUserBoxesForFrame }));
+      markEdited();
       setFrames(prev => {
         const out = prev.slice();
         out[currentIndex] = {
@@ -631,18 +1110,54 @@ const finish = () => {
               <Video ref={videoRef} source={{ uri: sourceUri }} style={{ width: drawRect.w, height: drawRect.h }} resizeMode="contain" paused={true} onLoad={onLoad} onSeek={onSeek} />
               <View style={[StyleSheet.absoluteFill, { width: drawRect.w, height: drawRect.h }]}>
                 {detectedVideoBoxes.map((b, i) => {
+                  if (!isTrackClass(b.classId)) {
+                    return (
+                      <View key={`d-${i}`} pointerEvents="none" style={[styles.box, styles.contextBox, toScreen(b)]}>
+                        <Text style={styles.contextLabel} numberOfLines={1}>{classNames[b.classId] ?? `class ${b.classId}`}</Text>
+                      </View>
+                    );
+                  }
                   const isSel = selected?.type === 'ai' && selected.idx === i;
-                  return <TouchableOpacity key={`d-${i}`} activeOpacity={0.9} onPress={() => setSelected({ type: 'ai', idx: i })} style={[styles.box, styles.detBox, toScreen(b), isSel && styles.selBox]} />;
+                  const isChosen = currentAssociation?.chosen === i;
+                  return <TouchableOpacity key={`d-${i}`} activeOpacity={0.9} onPress={() => setSelected({ type: 'ai', idx: i })} style={[styles.box, isChosen ? styles.detBox : styles.altBox, toScreen(b), isSel && styles.selBox]} />;
                 })}
                 {userVideoBoxes.map((b, i) => {
                   const isSel = selected?.type === 'user' && selected.idx === i;
                   return <TouchableOpacity key={`u-${i}`} activeOpacity={0.9} onPress={() => setSelected({ type: 'user', idx: i })} style={[styles.box, styles.userBox, toScreen(b), isSel && styles.selBox]} />;
                 })}
+                {proposedBoxes[currentIndex] && (
+                  <View pointerEvents="none" style={[styles.box, styles.proposedBox, toScreen(proposedBoxes[currentIndex])]} />
+                )}
               </View>
             </Animated.View>
           </GestureDetector>
 
-          {isInterpolationRecommended && (
+          {interpPreview ? (
+            <View style={styles.interpContainer}>
+              <View style={styles.interpPreview}>
+                <View style={styles.segmentedControl}>
+                  {(Object.keys(INTERPOLATION_MODE_LABELS) as InterpolationMode[]).map(m => (
+                    <TouchableOpacity key={m} style={[styles.segment, interpMode === m && styles.segmentActive]} onPress={() => setInterpMode(m)}>
+                      <Text style={styles.segmentText}>{INTERPOLATION_MODE_LABELS[m]}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <View style={styles.interpContent}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.interpTitle}>{proposedCount} box{proposedCount === 1 ? '' : 'es'} proposed</Text>
+                    <View style={styles.extrapolateRow}>
+                      <Switch value={extrapolateEnds} onValueChange={setExtrapolateEnds} />
+                      <Text style={styles.interpSub}>Extend past first and last box</Text>
+                    </View>
+                  </View>
+                  <TouchableOpacity onPress={() => setInterpPreview(false)}><Text style={styles.interpCancelTxt}>Cancel</Text></TouchableOpacity>
+                  <TouchableOpacity style={[styles.interpBtn, !proposedCount && styles.btnDisabled]} onPress={acceptInterpolation} disabled={!proposedCount}>
+                    <Text style={styles.interpBtnTxt}>Accept</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          ) : isInterpolationRecommended && (
             <View style={styles.interpContainer}>
               <View style={styles.interpContent}>
                 <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10, flex: 1 }}>
@@ -652,34 +1167,128 @@ const finish = () => {
                     <Text style={styles.interpSub}>Interpolation can improve accuracy.</Text>
                   </View>
                 </View>
-                <TouchableOpacity style={styles.interpBtn} onPress={interpolateFrames}><Text style={styles.interpBtnTxt}>✨ Interpolate</Text></TouchableOpacity>
+                <TouchableOpacity style={styles.interpBtn} onPress={() => setInterpPreview(true)}><Text style={styles.interpBtnTxt}>✨ Interpolate</Text></TouchableOpacity>
               </View>
             </View>
           )}
 
+          {detectionError ? (
+            <View style={styles.controlsContainer}>
+              <View style={[styles.panel, styles.errorPanel]}>
+                <Ionicons name="alert-circle-outline" size={40} color="#FF3B30" />
+                <Text style={styles.errorTitle}>Detection Failed</Text>
+                <Text style={styles.errorMessage}>{detectionError}</Text>
+                <TouchableOpacity style={[styles.actionBtn, styles.addBtn, styles.errorRetryBtn]} onPress={retryDetection}>
+                  <View style={styles.actionBtnContent}>
+                    <Ionicons name="refresh" size={20} color="#FFF" />
+                    <Text style={styles.actionBtnTxt}>Try Again</Text>
+                  </View>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
           <ScrollView contentContainerStyle={styles.controlsContainer}>
             <View style={styles.panel}>
               <Text style={styles.sectionHeader}>NAVIGATE FRAMES</Text>
               <View style={styles.speedReadout}>
                 <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
                   <Text style={styles.speedLabel}>Speed</Text>
-                  <TouchableOpacity onPress={() => Alert.alert('Speed Calculation', 'Speed is estimated based on the change in the object\'s center point between frames.')}>
+                  <TouchableOpacity onPress={() => Alert.alert('Speed Calculation', 'Raw speed uses the change in the object\'s center point between frames. Filtered speed runs the centers through a Kalman filter to suppress jitter from single boxes. Smoothed speed also uses later frames to refine earlier ones. The peak comes from a curve fitted through nearby centres whichever mode is selected, skipping boxes that sit far off it (marked red on the slider); only when there are too few frames to fit is it the largest speed of the selected mode. Orange marks frames after a dropped frame, a repeated timestamp or an uneven step; speeds always use the real time between frames, and repeated frames are left out.')}>
                     <Ionicons name="information-circle-outline" style={styles.infoIcon} />
                   </TouchableOpacity>
                 </View>
                 <Text style={styles.speedValue}>{speedLabel} <Text style={styles.speedUnit}>{speedUnit}</Text></Text>
+                <Text style={styles.speedCompare}>
+                  {captureFps.toFixed(0)} fps capture{timeScale < 1 ? ` · ${(1 / timeScale).toFixed(1)}× slow motion` : ''}
+                  {captureRateUnused ? ' · capture rate not applied, set the playback rate' : ''}
+                  {timingIssueCount > 0 ? ` · ${timingIssueCount} uneven frame step${timingIssueCount === 1 ? '' : 's'} marked in orange` : ''}
+                </Text>
+                <Text style={styles.speedCompare}>
+                  Raw {formatSpeedValue(currentRawKph, speedUnitPref, 0)} · Filtered {formatSpeedValue(currentFilteredKph, speedUnitPref, 0)} · Smoothed {formatSpeedValue(currentSmoothedKph, speedUnitPref, 0)}
+                </Text>
+                {!!associationLabel && (
+                  <Text style={[styles.trackStatus, currentAssociation?.reason === 'miss' && styles.trackStatusMiss]}>{associationLabel}</Text>
+                )}
+                {frameStateByIndex[currentIndex] === 'ignore' && (
+                  <Text style={[styles.trackStatus, styles.trackStatusIgnored]}>Ignored: this frame is left out of speed, peak and angle</Text>
+                )}
+                {!!timingLabel && (
+                  <Text style={[styles.trackStatus, styles.trackStatusTiming]}>{timingLabel}</Text>
+                )}
+                {robustPeak.rejected[currentIndex] && (
+                  <Text style={[styles.trackStatus, styles.trackStatusMiss]}>Outlier: this box is off the fitted path and is ignored for the peak</Text>
+                )}
+                {contact && !rally && (
+                  <TouchableOpacity onPress={() => seekToIndex(contact.index)}>
+                    <Text style={styles.contactStatus}>
+                      Contact at frame {contact.index + 1} · turned {contact.angleChangeDeg.toFixed(0)}°, {contact.speedRatio.toFixed(1)}× faster
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                {maxSpeed && (
+                  <Text style={styles.speedCompare}>
+                    Peak {formatSpeed(maxSpeed.maxKph, speedUnitPref, 0)} at frame {maxSpeed.atIndex + 1}{rejectedCount > 0 ? ` · ${rejectedCount} outlier${rejectedCount === 1 ? '' : 's'} marked in red` : ''}
+                  </Text>
+                )}
+              </View>
+
+              <View style={styles.segmentedControl}>
+                <TouchableOpacity style={[styles.segment, speedMode === 'filtered' && styles.segmentActive]} onPress={() => setSpeedMode('filtered')}><Text style={styles.segmentText}>Filtered</Text></TouchableOpacity>
+                <TouchableOpacity style={[styles.segment, speedMode === 'smoothed' && styles.segmentActive]} onPress={() => setSpeedMode('smoothed')}><Text style={styles.segmentText}>Smoothed</Text></TouchableOpacity>
+                <TouchableOpacity style={[styles.segment, speedMode === 'raw' && styles.segmentActive]} onPress={() => setSpeedMode('raw')}><Text style={styles.segmentText}>Raw</Text></TouchableOpacity>
+              </View>
+
+              <View style={styles.shuttleRow}>
+                <Text style={styles.speedLabel}>Shuttle</Text>
+                <View style={[styles.segmentedControl, styles.shuttleSegments]}>
+                  <TouchableOpacity style={[styles.segment, shuttleType === 'feather' && styles.segmentActive]} onPress={() => chooseShuttleType('feather')}><Text style={styles.segmentText}>Feather</Text></TouchableOpacity>
+                  <TouchableOpacity style={[styles.segment, shuttleType === 'nylon' && styles.segmentActive]} onPress={() => chooseShuttleType('nylon')}><Text style={styles.segmentText}>Nylon</Text></TouchableOpacity>
+                </View>
               </View>
 
               <View style={styles.sliderRow}>
                 <GlowButton onPress={() => seekToIndex(currentIndex - 1)} disabled={currentIndex <= 0}>
                   <Ionicons name="chevron-back-circle" style={[styles.navArrowIcon, currentIndex <= 0 && styles.btnDisabled]} />
                 </GlowButton>
-                <Slider style={{ flex: 1, height: 40 }} minimumValue={0} maximumValue={Math.max(0, frames.length - 1)} step={1} value={currentIndex} onValueChange={() => triggerHaptic('light')} onSlidingComplete={val => seekToIndex(val)} minimumTrackTintColor="#007AFF" maximumTrackTintColor="#D1D1D6" thumbTintColor="#000" />
+                <View style={{ flex: 1 }}>
+                  <Slider style={{ flex: 1, height: 40 }} minimumValue={0} maximumValue={Math.max(0, frames.length - 1)} step={1} value={currentIndex} onValueChange={() => triggerHaptic('light')} onSlidingComplete={val => seekToIndex(val)} minimumTrackTintColor="#007AFF" maximumTrackTintColor="#D1D1D6" thumbTintColor="#000" />
+                  <FrameMarkers count={frames.length} markers={interpPreview ? [...sliderMarkers, ...proposedMarkers] : sliderMarkers} />
+                </View>
                 <GlowButton onPress={() => seekToIndex(currentIndex + 1)} disabled={currentIndex >= frames.length - 1}>
                   <Ionicons name="chevron-forward-circle" style={[styles.navArrowIcon, currentIndex >= frames.length - 1 && styles.btnDisabled]} />
                 </GlowButton>
               </View>
 
+              {frames.length > 0 && (
+                <View style={styles.frameStateRow}>
+                  <Text style={styles.frameStateLabel}>This frame</Text>
+                  <View style={[styles.segmentedControl, { flex: 1 }]}>
+                    <TouchableOpacity style={[styles.segment, frameStateByIndex[currentIndex] !== 'ignore' && styles.segmentActive]} onPress={() => { if (frameStateByIndex[currentIndex] === 'ignore') setFrameState('use'); }}>
+                      <Text style={styles.segmentText}>{frameStateByIndex[currentIndex] === 'interpolated' ? 'Use (interpolated)' : 'Use'}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.segment, frameStateByIndex[currentIndex] === 'ignore' && styles.segmentActive]} onPress={() => setFrameState('ignore')}>
+                      <Text style={styles.segmentText}>Ignore</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+
+              {rally && (
+                <View style={styles.shotList}>
+                  <Text style={styles.speedLabel}>{shots.length} shot{shots.length === 1 ? '' : 's'} found</Text>
+                  {shots.map((shot, i) => {
+                    const active = currentIndex >= shot.startIndex && currentIndex <= shot.endIndex;
+                    return (
+                      <TouchableOpacity key={shot.startIndex} style={[styles.shotRow, active && styles.shotRowActive]} onPress={() => seekToIndex(shot.peakIndex)}>
+                        <Text style={styles.shotName}>Shot {i + 1}</Text>
+                        <Text style={styles.shotFrames}>frames {shot.startIndex + 1}–{shot.endIndex + 1}</Text>
+                        <Text style={styles.shotSpeed}>{formatSpeed(shot.maxKph, speedUnitPref, 0)}{shot.angle ? ` · ${formatShotAngle(shot.angle.degrees)}` : ''}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+
               <View style={styles.divider} />
               <TouchableOpacity onPress={() => setShowTuningControls(s => !s)} style={styles.toggleBtn}>
                 <View style={{flexDirection: 'row', alignItems: 'center', gap: 5}}>
@@ -688,6 +1297,13 @@ const finish = () => {
                 </View>
               </TouchableOpacity>
               {!showTuningControls && <Text style={styles.aiWarning}>Manual controls are hidden. AI detections are being used.</Text>}
+              {fromCache && (
+                <View style={styles.cacheRow}>
+                  <Ionicons name="archive-outline" size={14} color="#6D6D72" />
+                  <Text style={styles.cacheText}>Loaded from a saved analysis of this clip.</Text>
+                  <TouchableOpacity onPress={redetect}><Text style={styles.cacheLink}>Re-detect</Text></TouchableOpacity>
+                </View>
+              )}
             </View>
 
             {showTuningControls && (
@@ -698,6 +1314,11 @@ const finish = () => {
                     <Ionicons name="information-circle-outline" style={styles.infoIcon} />
                   </TouchableOpacity>
                 </View>
+                {!interpPreview && (
+                  <TouchableOpacity style={[styles.interpBtn, styles.fillGapsBtn]} onPress={() => setInterpPreview(true)}>
+                    <Text style={styles.interpBtnTxt}>✨ Fill Gaps…</Text>
+                  </TouchableOpacity>
+                )}
 
                 {!userVideoBoxes.length && !detectedVideoBoxes.length ? (
                   <TouchableOpacity style={[styles.actionBtn, styles.addBtn]} onPress={addBox}>
@@ -741,10 +1362,91 @@ const finish = () => {
                 )}
               </View>
             )}
+
+            <View style={styles.panel}>
+              <TouchableOpacity onPress={() => setShowDetectionSettings(s => !s)} style={styles.manualHeader}>
+                <Text style={[styles.sectionHeader, { marginBottom: 0 }]}>DETECTION SETTINGS</Text>
+                <Ionicons name={showDetectionSettings ? 'chevron-up' : 'chevron-down'} size={16} color={'#6D6D72'} />
+              </TouchableOpacity>
+              {showDetectionSettings && (
+                <View style={styles.settingsBody}>
+                  <View style={styles.settingRow}>
+                    <Text style={styles.settingLabel}>Confidence</Text>
+                    <Text style={styles.settingValue}>{draftOptions.confThreshold.toFixed(2)}</Text>
+                  </View>
+                  <Slider minimumValue={0.05} maximumValue={0.9} step={0.05} value={draftOptions.confThreshold} onValueChange={v => setDraftOptions(o => ({ ...o, confThreshold: v }))} minimumTrackTintColor="#007AFF" maximumTrackTintColor="#D1D1D6" />
+                  <View style={styles.settingRow}>
+                    <Text style={styles.settingLabel}>NMS IoU</Text>
+                    <Text style={styles.settingValue}>{draftOptions.iouThreshold.toFixed(2)}</Text>
+                  </View>
+                  <Slider minimumValue={0.1} maximumValue={0.9} step={0.05} value={draftOptions.iouThreshold} onValueChange={v => setDraftOptions(o => ({ ...o, iouThreshold: v }))} minimumTrackTintColor="#007AFF" maximumTrackTintColor="#D1D1D6" />
+                  <View style={styles.settingRow}>
+                    <Text style={styles.settingLabel}>Max boxes per frame</Text>
+                    <Text style={styles.settingValue}>{draftOptions.maxDetections}</Text>
+                  </View>
+                  <Slider minimumValue={1} maximumValue={20} step={1} value={draftOptions.maxDetections} onValueChange={v => setDraftOptions(o => ({ ...o, maxDetections: Math.round(v) }))} minimumTrackTintColor="#007AFF" maximumTrackTintColor="#D1D1D6" />
+                  <Text style={styles.settingLabel}>Sampling FPS</Text>
+                  <View style={styles.segmentedControl}>
+                    {FPS_CHOICES.map(f => (
+                      <TouchableOpacity key={f} style={[styles.segment, draftOptions.fps === f && styles.segmentActive]} onPress={() => setDraftOptions(o => ({ ...o, fps: f }))}>
+                        <Text style={styles.segmentText}>{f === 0 ? 'Native' : f}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={styles.settingLabel}>
+                    Capture rate{videoTiming.captureFps ? ` (video says ${videoTiming.captureFps.toFixed(0)})` : ' (not in video, set for slow motion)'}
+                  </Text>
+                  <View style={styles.segmentedControl}>
+                    {CAPTURE_FPS_CHOICES.map(f => (
+                      <TouchableOpacity key={f} style={[styles.segment, statedCaptureFps === f && styles.segmentActive]} onPress={() => setStatedCaptureFps(f)}>
+                        <Text style={styles.segmentText}>{f === 0 ? 'Auto' : f}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  {videoTiming.playbackFps == null && (
+                    <>
+                      <Text style={styles.settingLabel}>
+                        Playback rate{captureRateUnused ? ' (needed for the capture rate to apply)' : ' (not in video)'}
+                      </Text>
+                      <View style={styles.segmentedControl}>
+                        {PLAYBACK_FPS_CHOICES.map(f => (
+                          <TouchableOpacity key={f} style={[styles.segment, statedPlaybackFps === f && styles.segmentActive]} onPress={() => setStatedPlaybackFps(f)}>
+                            <Text style={styles.segmentText}>{f === 0 ? 'Auto' : f}</Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  )}
+                  {Object.keys(classNames).length > 1 && (
+                    <>
+                      <Text style={styles.settingLabel}>Track class</Text>
+                      <View style={styles.segmentedControl}>
+                        {Object.entries(classNames).map(([id, name]) => (
+                          <TouchableOpacity key={id} style={[styles.segment, isTrackClass(Number(id)) && styles.segmentActive]} onPress={() => { setSelected(null); setTrackClassIds([Number(id)]); }}>
+                            <Text style={styles.segmentText}>{name}</Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  )}
+                  <View style={styles.settingRow}>
+                    <Text style={styles.settingLabel}>Class IDs</Text>
+                    <TextInput value={classIdsText} onChangeText={setClassIdsText} placeholder="All" keyboardType="numbers-and-punctuation" style={styles.settingInput} />
+                  </View>
+                  <TouchableOpacity style={[styles.actionBtn, styles.addBtn, { marginBottom: 0 }]} onPress={rerunDetection} disabled={isLoading}>
+                    <View style={styles.actionBtnContent}>
+                      <Ionicons name="refresh" size={20} color="#FFF" />
+                      <Text style={styles.actionBtnTxt}>Re-run Detection</Text>
+                    </View>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
           </ScrollView>
+          )}
 
           <View style={styles.bottomBarContainer}>
-            <TouchableOpacity onPress={finish} style={styles.finishBtn}><Text style={styles.finishBtnTxt}>Finish</Text></TouchableOpacity>
+            <TouchableOpacity onPress={finish} disabled={!!detectionError} style={[styles.finishBtn, !!detectionError && styles.btnDisabled]}><Text style={styles.finishBtnTxt}>Finish</Text></TouchableOpacity>
             <TouchableOpacity onPress={() => navigation.goBack()}><Text style={styles.recalibrateTxt}>Recalibrate</Text></TouchableOpacity>
           </View>
 
@@ -752,6 +1454,17 @@ const finish = () => {
             <View style={styles.loadingOverlay}>
               <ActivityIndicator size="large" color="#FFFFFF" />
               <Text style={styles.loadingText}>Analyzing Video...</Text>
+              <Text style={styles.progressText}>
+                {progress.expected ? `${progress.decoded} / ${progress.expected} frames` : `${progress.decoded} frames`}
+              </Text>
+              {!!progress.expected && (
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${Math.min(100, (progress.decoded / progress.expected) * 100)}%` }]} />
+                </View>
+              )}
+              <TouchableOpacity onPress={() => navigation.goBack()} style={styles.loadingCancelBtn}>
+                <Text style={styles.loadingCancelTxt}>Cancel</Text>
+              </TouchableOpacity>
             </View>
           )}
         </SafeAreaView>
@@ -774,6 +1487,10 @@ const styles = StyleSheet.create({
   box: { position: 'absolute', borderWidth: 2, backgroundColor: 'transparent' },
   detBox: { borderColor: 'rgba(255, 69, 58, 0.8)' },
   userBox: { borderColor: 'rgba(10, 215, 255, 0.8)' },
+  proposedBox: { borderColor: '#A259FF', borderStyle: 'dashed' },
+  altBox: { borderColor: 'rgba(255, 255, 255, 0.5)', borderStyle: 'dashed' },
+  contextBox: { borderColor: 'rgba(255, 214, 10, 0.6)', borderWidth: 1 },
+  contextLabel: { position: 'absolute', top: -16, left: 0, color: '#FFD60A', fontSize: 11, fontWeight: '600' },
   selBox: { borderColor: '#FF9500', borderWidth: 3 },
   // Interpolation
   interpContainer: { borderBottomWidth: 1, borderColor: '#D1D1D6', backgroundColor: 'rgba(255, 226, 183, 0.5)' },
@@ -782,6 +1499,10 @@ const styles = StyleSheet.create({
   interpSub: { color: '#BF5A00', fontSize: 13, opacity: 0.8 },
   interpBtn: { backgroundColor: '#A259FF', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 10 },
   interpBtnTxt: { color: '#FFF', fontWeight: '700', fontSize: 13 },
+  interpPreview: { paddingTop: 10 },
+  interpCancelTxt: { color: '#BF5A00', fontWeight: '600', fontSize: 13 },
+  extrapolateRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 6 },
+  fillGapsBtn: { alignSelf: 'flex-start', marginBottom: 12 },
   // Controls ScrollView
   controlsContainer: { padding: 16, gap: 16, paddingBottom: 120 },
   panel: { 
@@ -801,6 +1522,22 @@ const styles = StyleSheet.create({
   infoIcon: { color: '#007AFF', fontSize: 18 }, // MODIFICATION: Adjusted size
   speedValue: { color: '#000', fontSize: 28, fontWeight: '700' },
   speedUnit: { fontSize: 20, color: '#6D6D72' },
+  speedCompare: { color: '#6D6D72', fontSize: 12, marginTop: 2 },
+  trackStatus: { color: '#6D6D72', fontSize: 12, marginTop: 4, textAlign: 'center' },
+  shotList: { marginTop: 10, gap: 6 },
+  shotRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 8, paddingHorizontal: 10, borderRadius: 8, backgroundColor: '#F2F2F7' },
+  shotRowActive: { backgroundColor: 'rgba(0, 122, 255, 0.12)' },
+  shotName: { fontSize: 14, fontWeight: '600', color: '#1C1C1E', width: 60 },
+  shotFrames: { fontSize: 12, color: '#6D6D72', flex: 1 },
+  shotSpeed: { fontSize: 14, fontWeight: '600', color: '#007AFF' },
+  contactStatus: { color: '#34C759', fontSize: 12, fontWeight: '600', marginTop: 4, textAlign: 'center' },
+  trackStatusMiss: { color: '#FF3B30' },
+  trackStatusTiming: { color: '#FF9500' },
+  trackStatusIgnored: { color: '#8E8E93' },
+  frameStateRow: { flexDirection: 'row', alignItems: 'center', gap: 10, marginTop: 4 },
+  frameStateLabel: { fontSize: 13, color: '#6D6D72', fontWeight: '600' },
+  shuttleRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  shuttleSegments: { flex: 1 },
   sliderRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
   navArrowIcon: { color: '#007AFF', fontSize: 40 }, // MODIFICATION: New icon style
   glowEffect: { shadowColor: '#007AFF', shadowOffset: { width: 0, height: 0 }, shadowOpacity: 0.8, shadowRadius: 10 },
@@ -808,6 +1545,9 @@ const styles = StyleSheet.create({
   toggleBtn: { paddingVertical: 4, alignItems: 'center' },
   toggleBtnText: { color: '#6D6D72', fontSize: 13, fontWeight: '500' },
   aiWarning: { color: '#6D6D72', fontSize: 12, textAlign: 'center', marginTop: 8, paddingHorizontal: 10 },
+  cacheRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, marginTop: 10 },
+  cacheText: { color: '#6D6D72', fontSize: 12 },
+  cacheLink: { color: '#007AFF', fontSize: 12, fontWeight: '600' },
   // Manual Panel
   manualHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
   actionBtn: { paddingVertical: 12, borderRadius: 10, alignItems: 'center', marginBottom: 16 },
@@ -824,6 +1564,12 @@ const styles = StyleSheet.create({
   resizeLabel: { color: '#000', fontWeight: '600', width: 60, textAlign: 'center' },
   fineTuneBtn: { width: 64, height: 48, backgroundColor: '#E5E5EA', borderRadius: 10, alignItems: 'center', justifyContent: 'center' },
   fineTuneBtnActive: { backgroundColor: '#D1D1D6' },
+  // Detection Settings Panel
+  settingsBody: { marginTop: 16, gap: 6 },
+  settingRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  settingLabel: { color: '#000', fontSize: 15, fontWeight: '500' },
+  settingValue: { color: '#6D6D72', fontSize: 15, fontVariant: ['tabular-nums'] },
+  settingInput: { backgroundColor: 'rgba(118, 118, 128, 0.12)', borderRadius: 8, paddingVertical: 6, paddingHorizontal: 10, minWidth: 90, textAlign: 'center', fontSize: 15 },
   // Bottom Bar
   bottomBarContainer: { position: 'absolute', bottom: 0, left: 0, right: 0, paddingBottom: 34, paddingTop: 12, paddingHorizontal: 16, gap: 14, borderTopWidth: 1, borderColor: '#D1D1D6', backgroundColor: '#FFFFFF' },
   finishBtn: { backgroundColor: '#007AFF', paddingVertical: 16, borderRadius: 14, alignItems: 'center' },
@@ -833,4 +1579,14 @@ const styles = StyleSheet.create({
   // Overlays
   loadingOverlay: { ...StyleSheet.absoluteFillObject, backgroundColor: 'rgba(0, 0, 0, 0.7)', justifyContent: 'center', alignItems: 'center' },
   loadingText: { color: '#fff', marginTop: 15, fontSize: 16 },
+  progressText: { color: 'rgba(255, 255, 255, 0.8)', marginTop: 6, fontSize: 13, fontVariant: ['tabular-nums'] },
+  progressTrack: { width: 200, height: 4, borderRadius: 2, backgroundColor: 'rgba(255, 255, 255, 0.25)', marginTop: 12, overflow: 'hidden' },
+  progressFill: { height: 4, backgroundColor: '#FFFFFF' },
+  loadingCancelBtn: { marginTop: 24, paddingVertical: 8, paddingHorizontal: 20, borderRadius: 10, borderWidth: 1, borderColor: 'rgba(255, 255, 255, 0.5)' },
+  loadingCancelTxt: { color: '#FFF', fontSize: 15, fontWeight: '600' },
+  // Error State
+  errorPanel: { alignItems: 'center', gap: 8 },
+  errorTitle: { color: '#000', fontSize: 17, fontWeight: '700' },
+  errorMessage: { color: '#6D6D72', fontSize: 14, textAlign: 'center' },
+  errorRetryBtn: { alignSelf: 'stretch', marginTop: 8, marginBottom: 0 },
 });
\ No newline at end of file
@@ -1,5 +1,5 @@
 // src/screens/CalibrationScreen.tsx
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   StyleSheet,
   View,
@@ -12,6 +12,8 @@ import {
   Modal,
   ImageBackground,
   useWindowDimensions,
+  ScrollView,
+  Switch,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
@@ -24,20 +26,68 @@ import Animated, {
   useAnimatedProps,
   withTiming,
   SharedValue,
+  useAnimatedReaction,
+  runOnJS,
 } from 'react-native-reanimated';
 import { BlurView } from 'expo-blur';
 import Ionicons from 'react-native-vector-icons/Ionicons';
+import type { Homography } from '../ml/homography';
+import type { DepthModel } from '../ml/depth';
+import {
+  Calibration,
+  CalibrationMode,
+  CalibrationProfile,
+  DepthMode,
+  lineCalibration,
+  withDepthReference,
+  courtCalibration,
+  calibrationFromProfile,
+  loadCalibrationProfiles,
+  saveCalibrationProfile,
+  deleteCalibrationProfile,
+  findSkipProfile,
+  sameResolution,
+} from '../ml/calibration';
+import CourtPresetPicker, { COURT_PRESETS, CUSTOM_PRESET_ID, DEFAULT_PRESET_ID, presetGivesHorizon } from '../components/CourtPresetPicker';
+import { FEET_PER_METER } from '../ml/units';
 
 const AnimatedLine = Animated.createAnimatedComponent(Line);
 
 // --- Type Definitions ---
 type RootStackParamList = {
-  Calibration: { sourceUri: string; duration: number; startSec: number; endSec: number };
-  Analyze: { sourceUri: string; startSec: number; endSec: number; metersPerPixel: number };
+  Calibration: { sourceUri: string; duration: number; startSec: number; endSec: number; mode?: 'single' | 'rally' };
+  Analyze: { sourceUri: string; startSec: number; endSec: number; metersPerPixel: number; calibrationPx?: number; homography?: Homography; calibrationPreset?: string; referenceLengthM?: number | null; depth?: DepthModel; horizonDeg?: number; mode?: 'single' | 'rally' };
 };
 type CalibRoute = RouteProp<RootStackParamList, 'Calibration'>;
 type CGPoint = { x: number; y: number };
 type CGSize = { width: number; height: number };
+type LengthUnit = 'm' | 'ft';
+type Handle = { position: SharedValue<CGPoint>; liveOffset: SharedValue<CGSize>; isDragging: SharedValue<boolean> };
+
+// Pinch-zoom of the video. Handle positions stay in unzoomed view coordinates
+// and are mapped through this when drawn, so pins and lines keep their size.
+type Zoom = {
+  scale: SharedValue<number>;
+  translateX: SharedValue<number>;
+  translateY: SharedValue<number>;
+  center: SharedValue<CGPoint>;
+};
+
+const WIDTH_EDGE_COLOR = '#007AFF';
+const DEPTH_EDGE_COLOR = '#FF9500';
+const PLAYER_COLOR = '#34C759';
+const MAX_ZOOM = 8;
+const LOUPE_SIZE = 120;
+const LOUPE_MAGNIFICATION = 3; // relative to the current zoom
+
+function toView(zoom: Zoom, x: number, y: number): CGPoint {
+  'worklet';
+  const c = zoom.center.value;
+  return {
+    x: c.x + zoom.translateX.value + (x - c.x) * zoom.scale.value,
+    y: c.y + zoom.translateY.value + (y - c.y) * zoom.scale.value,
+  };
+}
 
 // --- Reusable Components ---
 
@@ -52,13 +102,14 @@ const GlassPanel = ({ children, style }: { children: React.ReactNode; style?: an
   return <View style={[styles.glassPanelAndroid, style]}>{children}</View>;
 };
 
-const CalibrationHandle = ({ position, liveOffset, isDragging }: { position: SharedValue<CGPoint>, liveOffset: SharedValue<CGSize>, isDragging: SharedValue<boolean> }) => {
+const CalibrationHandle = ({ position, liveOffset, isDragging, zoom }: { position: SharedValue<CGPoint>, liveOffset: SharedValue<CGSize>, isDragging: SharedValue<boolean>, zoom: Zoom }) => {
   const animatedStyle = useAnimatedStyle(() => {
     const scale = withTiming(isDragging.value ? 1.1 : 1, { duration: 150 });
+    const p = toView(zoom, position.value.x + liveOffset.value.width, position.value.y + liveOffset.value.height);
     return {
       position: 'absolute',
-      left: position.value.x + liveOffset.value.width,
-      top: position.value.y + liveOffset.value.height,
+      left: p.x,
+      top: p.y,
       transform: [{ scale }],
     };
   });
@@ -85,123 +136,420 @@ const CalibrationHandle = ({ position, liveOffset, isDragging }: { position: Sha
   );
 };
 
+// One side of the court quadrilateral, following both handles while they are dragged.
+const HandleEdge = ({ from, to, color, zoom }: { from: Handle; to: Handle; color: string; zoom: Zoom }) => {
+  const animatedProps = useAnimatedProps(() => {
+    const a = toView(zoom, from.position.value.x + from.liveOffset.value.width, from.position.value.y + from.liveOffset.value.height);
+    const b = toView(zoom, to.position.value.x + to.liveOffset.value.width, to.position.value.y + to.liveOffset.value.height);
+    return { x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+  });
+  return <AnimatedLine animatedProps={animatedProps} stroke={color} strokeWidth={2} />;
+};
+
 // --- Main Component ---
 export default function CalibrationScreen() {
   const navigation = useNavigation();
   const route = useRoute<CalibRoute>();
   const insets = useSafeAreaInsets();
-  const { sourceUri, startSec, endSec } = route.params;
+  const { sourceUri, startSec, endSec, mode } = route.params;
 
   // --- FIX START ---
   // Revert to the most robust pattern: initialize with zero and wait for onLayout.
   const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
   const point1 = useSharedValue({ x: 0, y: 0 });
   const point2 = useSharedValue({ x: 0, y: 0 });
+  const point3 = useSharedValue({ x: 0, y: 0 });
+  const point4 = useSharedValue({ x: 0, y: 0 });
   // --- FIX END ---
   
-  const [referenceLength, setReferenceLength] = useState('3.87');
+  const [calibMode, setCalibMode] = useState<CalibrationMode>('line');
+  const [presetId, setPresetId] = useState(DEFAULT_PRESET_ID);
+  const [referenceLength, setReferenceLength] = useState('');
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>('m');
+  const [courtWidth, setCourtWidth] = useState('6.10');
+  const [courtDepth, setCourtDepth] = useState('3.96');
+  const [depthMode, setDepthMode] = useState<DepthMode>('off');
+  const [secondLength, setSecondLength] = useState('');
+  const [playerHeight, setPlayerHeight] = useState('1.75');
+  const preset = COURT_PRESETS.find(p => p.id === presetId) ?? null;
   const videoPixelSize = useRef({ width: 0, height: 0 });
   const [showInfoSheet, setShowInfoSheet] = useState(false);
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [activeProfile, setActiveProfile] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [skipWhenMatching, setSkipWhenMatching] = useState(false);
+  const checkedSkipProfile = useRef(false);
 
   const liveOffset1 = useSharedValue({ width: 0, height: 0 });
   const liveOffset2 = useSharedValue({ width: 0, height: 0 });
   const isDragging1 = useSharedValue(false);
   const isDragging2 = useSharedValue(false);
-  const activeHandle = useSharedValue<1 | 2 | null>(null);
+  const liveOffset3 = useSharedValue({ width: 0, height: 0 });
+  const liveOffset4 = useSharedValue({ width: 0, height: 0 });
+  const isDragging3 = useSharedValue(false);
+  const isDragging4 = useSharedValue(false);
+  const activeHandle = useSharedValue<number | null>(null);
+  const lastHandle = useSharedValue(0); // the handle the nudge buttons move
+
+  const zoom: Zoom = {
+    scale: useSharedValue(1),
+    translateX: useSharedValue(0),
+    translateY: useSharedValue(0),
+    center: useSharedValue({ x: 0, y: 0 }),
+  };
+  const savedScale = useSharedValue(1);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+  const viewPerVideoPx = useSharedValue(0);
+  const [linePx, setLinePx] = useState<number | null>(null);
+
+  const handles: Handle[] = [
+    { position: point1, liveOffset: liveOffset1, isDragging: isDragging1 },
+    { position: point2, liveOffset: liveOffset2, isDragging: isDragging2 },
+    { position: point3, liveOffset: liveOffset3, isDragging: isDragging3 },
+    { position: point4, liveOffset: liveOffset4, isDragging: isDragging4 },
+  ];
+  const handleCount = calibMode === 'court' || depthMode !== 'off' ? 4 : 2;
 
 
   const onContainerLayout = (event: LayoutChangeEvent) => {
     const { width, height } = event.nativeEvent.layout;
     if (viewSize.width === 0) {
       setViewSize({ width, height });
+      zoom.center.value = { x: width / 2, y: height / 2 };
       // Change the 'y' value from 0.8 to 0.5
       point1.value = { x: width * 0.3, y: height * 0.65 };
       point2.value = { x: width * 0.7, y: height * 0.65 };
+      // Court corners start as a trapezoid, roughly how a rectangle on the floor looks from behind.
+      point3.value = { x: width * 0.65, y: height * 0.45 };
+      point4.value = { x: width * 0.35, y: height * 0.45 };
     }
   };
 
+  useEffect(() => {
+    loadCalibrationProfiles().then(setProfiles);
+  }, []);
+
   const onVideoLoad = (meta: OnLoadData) => {
     videoPixelSize.current = { width: meta.naturalSize.width, height: meta.naturalSize.height };
+    viewPerVideoPx.value = videoLayout()?.scaleRatio ?? 0;
+    if (checkedSkipProfile.current) return;
+    checkedSkipProfile.current = true;
+    // A profile marked for this resolution replaces calibration outright. Its
+    // handles are still loaded so "Recalibrate" comes back to them.
+    loadCalibrationProfiles().then(list => {
+      const p = findSkipProfile(list, meta.naturalSize.width, meta.naturalSize.height);
+      if (!p) return;
+      try {
+        const calibration = calibrationFromProfile(p, presetGivesHorizon(p.presetId));
+        applyProfile(p);
+        proceed(calibration);
+      } catch (e) {
+        console.warn(`Calibration profile "${p.name}" is unusable`, e);
+      }
+    });
   };
 
   const panGesture = Gesture.Pan()
+    .maxPointers(1)
     .onBegin((e) => {
-      const dist1 = Math.sqrt(Math.pow(e.x - point1.value.x, 2) + Math.pow(e.y - point1.value.y, 2));
-      const dist2 = Math.sqrt(Math.pow(e.x - point2.value.x, 2) + Math.pow(e.y - point2.value.y, 2));
-      
-      if (dist1 < dist2) {
-        activeHandle.value = 1;
-        isDragging1.value = true;
-      } else {
-        activeHandle.value = 2;
-        isDragging2.value = true;
+      let nearest = 0;
+      let nearestDist = Infinity;
+      for (let i = 0; i < handleCount; i++) {
+        const p = toView(zoom, handles[i].position.value.x, handles[i].position.value.y);
+        const dist = Math.sqrt(Math.pow(e.x - p.x, 2) + Math.pow(e.y - p.y, 2));
+        if (dist < nearestDist) {
+          nearest = i;
+          nearestDist = dist;
+        }
       }
+      activeHandle.value = nearest;
+      lastHandle.value = nearest;
+      handles[nearest].isDragging.value = true;
     })
     .onUpdate((e) => {
-      if (activeHandle.value === 1) {
-        liveOffset1.value = { width: e.translationX, height: e.translationY };
-      } else {
-        liveOffset2.value = { width: e.translationX, height: e.translationY };
-      }
+      if (activeHandle.value == null) return;
+      // Finger movement is in screen points; handles move less when zoomed in.
+      handles[activeHandle.value].liveOffset.value = { width: e.translationX / zoom.scale.value, height: e.translationY / zoom.scale.value };
     })
     .onEnd((e) => {
-      if (activeHandle.value === 1) {
-        const newX = point1.value.x + e.translationX;
-        const newY = point1.value.y + e.translationY;
-        point1.value = {
-          x: Math.max(0, Math.min(newX, viewSize.width)),
-          y: Math.max(0, Math.min(newY, viewSize.height)),
-        };
-        liveOffset1.value = { width: 0, height: 0 };
-      } else {
-        const newX = point2.value.x + e.translationX;
-        const newY = point2.value.y + e.translationY;
-        point2.value = {
-          x: Math.max(0, Math.min(newX, viewSize.width)),
-          y: Math.max(0, Math.min(newY, viewSize.height)),
-        };
-        liveOffset2.value = { width: 0, height: 0 };
-      }
+      if (activeHandle.value == null) return;
+      const handle = handles[activeHandle.value];
+      const newX = handle.position.value.x + e.translationX / zoom.scale.value;
+      const newY = handle.position.value.y + e.translationY / zoom.scale.value;
+      handle.position.value = {
+        x: Math.max(0, Math.min(newX, viewSize.width)),
+        y: Math.max(0, Math.min(newY, viewSize.height)),
+      };
+      handle.liveOffset.value = { width: 0, height: 0 };
     })
     .onFinalize(() => {
-      isDragging1.value = false;
-      isDragging2.value = false;
+      for (const h of handles) h.isDragging.value = false;
       activeHandle.value = null;
     });
 
-  const animatedLineProps = useAnimatedProps(() => ({
-    x1: point1.value.x + liveOffset1.value.width,
-    y1: point1.value.y + liveOffset1.value.height,
-    x2: point2.value.x + liveOffset2.value.width,
-    y2: point2.value.y + liveOffset2.value.height,
+  // Two fingers zoom and pan the video; one finger always moves a handle.
+  const pinchGesture = Gesture.Pinch()
+    .onUpdate((e) => {
+      zoom.scale.value = Math.max(1, Math.min(savedScale.value * e.scale, MAX_ZOOM));
+    })
+    .onEnd(() => {
+      savedScale.value = zoom.scale.value;
+    });
+  const viewPanGesture = Gesture.Pan()
+    .minPointers(2)
+    .onUpdate((e) => {
+      zoom.translateX.value = savedTranslateX.value + e.translationX;
+      zoom.translateY.value = savedTranslateY.value + e.translationY;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = zoom.translateX.value;
+      savedTranslateY.value = zoom.translateY.value;
+    });
+  const composedGesture = Gesture.Race(panGesture, Gesture.Simultaneous(pinchGesture, viewPanGesture));
+
+  const resetZoom = () => {
+    zoom.scale.value = withTiming(1); savedScale.value = 1;
+    zoom.translateX.value = withTiming(0); savedTranslateX.value = 0;
+    zoom.translateY.value = withTiming(0); savedTranslateY.value = 0;
+  };
+
+  const zoomStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: zoom.translateX.value }, { translateY: zoom.translateY.value }, { scale: zoom.scale.value }],
   }));
 
-  const calculateAndProceed = () => {
-    const realLength = parseFloat(referenceLength);
+  // The loupe shows a magnified copy of the video centred on the dragged handle's
+  // tip, in the top corner away from it so the finger does not cover it.
+  const loupeStyle = useAnimatedStyle(() => {
+    const h = activeHandle.value;
+    if (h == null) return { opacity: 0, left: 12 };
+    const p = toView(zoom, handles[h].position.value.x, handles[h].position.value.y);
+    return {
+      opacity: 1,
+      left: p.x < zoom.center.value.x ? zoom.center.value.x * 2 - LOUPE_SIZE - 12 : 12,
+    };
+  });
+  const loupeContentStyle = useAnimatedStyle(() => {
+    const h = activeHandle.value ?? lastHandle.value;
+    const m = LOUPE_MAGNIFICATION * zoom.scale.value;
+    const x = handles[h].position.value.x + handles[h].liveOffset.value.width;
+    const y = handles[h].position.value.y + handles[h].liveOffset.value.height;
+    return {
+      width: zoom.center.value.x * 2 * m,
+      height: zoom.center.value.y * 2 * m,
+      left: LOUPE_SIZE / 2 - x * m,
+      top: LOUPE_SIZE / 2 - y * m,
+    };
+  });
+
+  // Moves the last dragged handle by one video pixel.
+  const nudge = (dx: number, dy: number) => {
+    const step = viewPerVideoPx.value;
+    if (!(step > 0)) return;
+    const handle = handles[Math.min(lastHandle.value, handleCount - 1)];
+    handle.position.value = {
+      x: Math.max(0, Math.min(handle.position.value.x + dx * step, viewSize.width)),
+      y: Math.max(0, Math.min(handle.position.value.y + dy * step, viewSize.height)),
+    };
+  };
+
+  // Live length of the reference line in video pixels.
+  useAnimatedReaction(
+    () => {
+      if (!(viewPerVideoPx.value > 0)) return null;
+      const dx = point2.value.x + liveOffset2.value.width - point1.value.x - liveOffset1.value.width;
+      const dy = point2.value.y + liveOffset2.value.height - point1.value.y - liveOffset1.value.height;
+      return Math.round((Math.hypot(dx, dy) / viewPerVideoPx.value) * 10) / 10;
+    },
+    (px, prev) => {
+      if (px !== prev) runOnJS(setLinePx)(px);
+    },
+  );
+
+  const animatedLineProps = useAnimatedProps(() => {
+    const a = toView(zoom, point1.value.x + liveOffset1.value.width, point1.value.y + liveOffset1.value.height);
+    const b = toView(zoom, point2.value.x + liveOffset2.value.width, point2.value.y + liveOffset2.value.height);
+    return { x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+  });
+
+  // Handles live in unzoomed view coordinates; the calibration maths and profiles use
+  // video pixels, so undo the letterboxing of resizeMode="contain".
+  const videoLayout = () => {
+    const { width, height } = videoPixelSize.current;
+    if (width === 0 || viewSize.width === 0) return null;
+    const scaleRatio = Math.min(viewSize.width / width, viewSize.height / height);
+    if (scaleRatio <= 0) return null;
+    return {
+      scaleRatio,
+      offsetX: (viewSize.width - width * scaleRatio) / 2,
+      offsetY: (viewSize.height - height * scaleRatio) / 2,
+    };
+  };
+
+  const handlesInVideoPx = (layout: NonNullable<ReturnType<typeof videoLayout>>) =>
+    handles.slice(0, handleCount).map(h => ({
+      x: (h.position.value.x - layout.offsetX) / layout.scaleRatio,
+      y: (h.position.value.y - layout.offsetY) / layout.scaleRatio,
+    }));
+
+  // The entered distances in metres; alerts and returns null if they are not valid.
+  const readReference = (): { lengthM: number; courtWidthM: number | null } | null => {
+    if (calibMode === 'court') {
+      const width = parseFloat(courtWidth);
+      const depth = parseFloat(courtDepth);
+      if (!Number.isFinite(width) || width <= 0 || !Number.isFinite(depth) || depth <= 0) {
+        Alert.alert('Invalid Input', 'Please enter a valid width and depth.');
+        return null;
+      }
+      return { lengthM: depth, courtWidthM: width };
+    }
+    const realLength = preset
+      ? preset.meters
+      : parseFloat(referenceLength) / (lengthUnit === 'ft' ? FEET_PER_METER : 1);
     if (!Number.isFinite(realLength) || realLength <= 0) {
       Alert.alert('Invalid Input', 'Please enter a valid reference length.');
-      return;
+      return null;
+    }
+    return { lengthM: realLength, courtWidthM: null };
+  };
+
+  // Handles 3 and 4 become the depth reference: a second line, or the player standing upright.
+  const selectDepthMode = (next: DepthMode) => {
+    setDepthMode(next);
+    if (next === 'player') {
+      point3.value = { x: viewSize.width * 0.5, y: viewSize.height * 0.6 };
+      point4.value = { x: viewSize.width * 0.5, y: viewSize.height * 0.35 };
+    } else if (next === 'line') {
+      point3.value = { x: viewSize.width * 0.35, y: viewSize.height * 0.45 };
+      point4.value = { x: viewSize.width * 0.65, y: viewSize.height * 0.45 };
     }
-    if (videoPixelSize.current.width === 0 || viewSize.width === 0) {
+  };
+
+  // Calibration from the current handles, or null after telling the user what is wrong.
+  const currentCalibration = (): Calibration | null => {
+    const layout = videoLayout();
+    if (!layout) {
       Alert.alert('Error', 'Video dimensions not loaded yet.');
-      return;
+      return null;
     }
+    const ref = readReference();
+    if (!ref) return null;
+    const points = handlesInVideoPx(layout);
+    let depthLengthM = 0;
+    if (calibMode === 'line' && depthMode !== 'off') {
+      depthLengthM = parseFloat(depthMode === 'player' ? playerHeight : secondLength);
+      if (!Number.isFinite(depthLengthM) || depthLengthM <= 0) {
+        Alert.alert('Invalid Input', depthMode === 'player' ? 'Please enter the player\'s height.' : 'Please enter the length of the second line.');
+        return null;
+      }
+    }
+    try {
+      if (calibMode === 'court') return courtCalibration(points, ref.courtWidthM as number, ref.lengthM);
+      const presetIdUsed = preset ? preset.id : CUSTOM_PRESET_ID;
+      const calibration = lineCalibration(points, ref.lengthM, presetIdUsed, presetGivesHorizon(presetIdUsed));
+      return depthMode === 'off' ? calibration : withDepthReference(calibration, points, depthMode, depthLengthM);
+    } catch (e) {
+      Alert.alert('Invalid Points', e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  };
 
-    const dx = point2.value.x - point1.value.x;
-    const dy = point2.value.y - point1.value.y;
-    const pointDistance = Math.sqrt(dx * dx + dy * dy);
+  const proceed = (calibration: Calibration) => {
+    navigation.navigate('Analyze', { sourceUri, startSec, endSec, ...calibration, mode });
+  };
+
+  const calculateAndProceed = () => {
+    const calibration = currentCalibration();
+    if (calibration) proceed(calibration);
+  };
 
-    const scaleRatio = Math.min(viewSize.width / videoPixelSize.current.width, viewSize.height / videoPixelSize.current.height);
-    if (scaleRatio <= 0) return;
+  // --- Profiles ---
+  // Moves the handles and reference values to a saved profile. Points are scaled
+  // if this clip's resolution differs from the one the profile was saved with.
+  const applyProfile = (p: CalibrationProfile) => {
+    const layout = videoLayout();
+    if (!layout) return;
+    const { width, height } = videoPixelSize.current;
+    const sx = width / p.videoWidth;
+    const sy = height / p.videoHeight;
+    setCalibMode(p.mode);
+    p.points.forEach((pt, i) => {
+      handles[i].position.value = {
+        x: pt.x * sx * layout.scaleRatio + layout.offsetX,
+        y: pt.y * sy * layout.scaleRatio + layout.offsetY,
+      };
+    });
+    const profileDepth = p.mode === 'line' ? p.depthMode ?? 'off' : 'off';
+    setDepthMode(profileDepth);
+    if (profileDepth === 'player' && p.depthLengthM) setPlayerHeight(String(p.depthLengthM));
+    if (profileDepth === 'line' && p.depthLengthM) setSecondLength(String(p.depthLengthM));
+    if (p.mode === 'court') {
+      setCourtWidth(String(p.courtWidthM ?? ''));
+      setCourtDepth(String(p.referenceLengthM));
+    } else if (COURT_PRESETS.some(cp => cp.id === p.presetId)) {
+      setPresetId(p.presetId);
+    } else {
+      setPresetId(CUSTOM_PRESET_ID);
+      setReferenceLength(String(Number(p.referenceLengthM.toFixed(3))));
+      setLengthUnit('m');
+    }
+    setActiveProfile(p.name);
+    setShowProfiles(false);
+    if (!sameResolution(p, width, height)) {
+      Alert.alert(
+        'Different Resolution',
+        `"${p.name}" was saved for ${p.videoWidth}×${p.videoHeight} video and this clip is ${width}×${height}. The handles were scaled to fit; check them before continuing.`,
+      );
+    }
+  };
 
-    const pixelDistance = pointDistance / scaleRatio;
-    if (pixelDistance <= 0) {
-      Alert.alert('Invalid Points', 'Please move handles to two distinct points.');
+  const saveProfile = async () => {
+    const name = profileName.trim();
+    if (!name) {
+      Alert.alert('Name Required', 'Please give this profile a name.');
       return;
     }
+    const layout = videoLayout();
+    const ref = readReference();
+    if (!layout || !ref || !currentCalibration()) return;
+    const lineDepth = calibMode === 'line' ? depthMode : 'off';
+    try {
+      const list = await saveCalibrationProfile({
+        name,
+        mode: calibMode,
+        points: handlesInVideoPx(layout),
+        videoWidth: videoPixelSize.current.width,
+        videoHeight: videoPixelSize.current.height,
+        presetId: calibMode === 'line' && preset ? preset.id : CUSTOM_PRESET_ID,
+        referenceLengthM: ref.lengthM,
+        courtWidthM: ref.courtWidthM,
+        depthMode: lineDepth,
+        depthLengthM: lineDepth === 'off' ? null : parseFloat(lineDepth === 'player' ? playerHeight : secondLength),
+        skipWhenMatching,
+      });
+      setProfiles(list);
+      setActiveProfile(name);
+      setProfileName('');
+    } catch (e) {
+      console.warn('Saving calibration profile failed', e);
+      Alert.alert('Save Failed', 'Could not save this calibration profile.');
+    }
+  };
 
-    const metersPerPixel = realLength / pixelDistance;
-    navigation.navigate('Analyze', { sourceUri, startSec, endSec, metersPerPixel });
+  const removeProfile = (p: CalibrationProfile) => {
+    Alert.alert('Delete Profile', `Delete "${p.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteCalibrationProfile(p.id)
+            .then(setProfiles)
+            .catch(e => console.warn('Deleting calibration profile failed', e));
+        },
+      },
+    ]);
   };
 
   return (
@@ -220,17 +568,52 @@ export default function CalibrationScreen() {
           </TouchableOpacity>
         </View>
 
-        <GestureDetector gesture={panGesture}>
+        <GestureDetector gesture={composedGesture}>
           <View style={styles.videoContainer} onLayout={onContainerLayout}>
             {/* Conditional rendering prevents crashes and ensures correct initial positioning. */}
             {viewSize.width > 0 && (
               <>
-                <Video source={{ uri: sourceUri }} style={styles.video} resizeMode="contain" paused={true} onLoad={onVideoLoad} />
+                <Animated.View style={[StyleSheet.absoluteFill, zoomStyle]}>
+                  <Video source={{ uri: sourceUri }} style={styles.video} resizeMode="contain" paused={true} onLoad={onVideoLoad} />
+                </Animated.View>
                 <Svg style={StyleSheet.absoluteFill}>
-                  <AnimatedLine animatedProps={animatedLineProps} stroke="#007AFF" strokeWidth={2} strokeDasharray="5, 5" />
+                  {calibMode === 'line' ? (
+                    <>
+                      <AnimatedLine animatedProps={animatedLineProps} stroke="#007AFF" strokeWidth={2} strokeDasharray="5, 5" />
+                      {depthMode !== 'off' && (
+                        <HandleEdge from={handles[2]} to={handles[3]} color={depthMode === 'player' ? PLAYER_COLOR : DEPTH_EDGE_COLOR} zoom={zoom} />
+                      )}
+                    </>
+                  ) : (
+                    handles.map((h, i) => (
+                      <HandleEdge key={i} from={h} to={handles[(i + 1) % 4]} color={i % 2 === 0 ? WIDTH_EDGE_COLOR : DEPTH_EDGE_COLOR} zoom={zoom} />
+                    ))
+                  )}
                 </Svg>
-                <CalibrationHandle position={point1} liveOffset={liveOffset1} isDragging={isDragging1} />
-                <CalibrationHandle position={point2} liveOffset={liveOffset2} isDragging={isDragging2} />
+                {handles.slice(0, handleCount).map((h, i) => (
+                  <CalibrationHandle key={i} position={h.position} liveOffset={h.liveOffset} isDragging={h.isDragging} zoom={zoom} />
+                ))}
+                <Animated.View pointerEvents="none" style={[styles.loupe, loupeStyle]}>
+                  <Animated.View style={[styles.loupeContent, loupeContentStyle]}>
+                    <Video source={{ uri: sourceUri }} style={styles.video} resizeMode="contain" paused={true} muted={true} />
+                  </Animated.View>
+                  <View style={[styles.loupeCrosshair, { width: 1, height: LOUPE_SIZE, left: LOUPE_SIZE / 2 }]} />
+                  <View style={[styles.loupeCrosshair, { height: 1, width: LOUPE_SIZE, top: LOUPE_SIZE / 2 }]} />
+                </Animated.View>
+                <View style={styles.precisionBar}>
+                  {calibMode === 'line' && linePx != null && (
+                    <Text style={styles.precisionText}>{linePx.toFixed(1)} px</Text>
+                  )}
+                  <View style={{ flex: 1 }} />
+                  {([[-1, 0, 'chevron-back'], [0, -1, 'chevron-up'], [0, 1, 'chevron-down'], [1, 0, 'chevron-forward']] as const).map(([dx, dy, icon]) => (
+                    <TouchableOpacity key={icon} style={styles.nudgeButton} onPress={() => nudge(dx, dy)}>
+                      <Ionicons name={icon} size={18} color="#FFF" />
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity style={styles.nudgeButton} onPress={resetZoom}>
+                    <Ionicons name="scan-outline" size={18} color="#FFF" />
+                  </TouchableOpacity>
+                </View>
               </>
             )}
           </View>
@@ -238,25 +621,114 @@ export default function CalibrationScreen() {
 
         <GlassPanel>
           <View style={styles.panelContent}>
+            <View style={styles.modeControl}>
+              {(['line', 'court'] as const).map(m => (
+                <TouchableOpacity key={m} style={[styles.modeSegment, calibMode === m && styles.modeSegmentActive]} onPress={() => setCalibMode(m)}>
+                  <Text style={[styles.modeSegmentText, calibMode === m && styles.modeSegmentTextActive]}>{m === 'line' ? 'Reference Line' : 'Court Corners'}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.profileRow} onPress={() => setShowProfiles(true)}>
+              <Ionicons name="bookmark-outline" size={20} color="#007AFF" />
+              <Text style={styles.profileRowText} numberOfLines={1}>
+                {activeProfile ? `Profile: ${activeProfile}` : 'Load or save a calibration profile'}
+              </Text>
+              <Ionicons name="chevron-forward" size={18} color="#6D6D72" />
+            </TouchableOpacity>
             <View style={styles.instructionRow}>
               <Ionicons name="hand-left-outline" size={20} color="#007AFF" />
-              <Text style={styles.instructionText}>Place one point on the front service line and the other on the doubles long service (flick) line.</Text>
+              <Text style={styles.instructionText}>
+                {calibMode === 'line'
+                  ? (preset
+                    ? `Place the two points at the ends of the blue line in the diagram: ${preset.label.toLowerCase()}.`
+                    : 'Place the two points at the ends of a distance you know, then enter it below.')
+                  : 'Place the four points on the corners of the service area, going around it. The blue sides run along the service lines, the orange sides along the doubles sidelines.'}
+              </Text>
             </View>
             <View style={styles.instructionRow}>
               <Ionicons name="move-outline" size={20} color="#007AFF" />
-              <Text style={styles.instructionText}>Tip: Drag from the area around a point to avoid covering it with your finger</Text>
+              <Text style={styles.instructionText}>Tip: Drag from the area around a point to avoid covering it with your finger. Pinch to zoom, and use the arrows to move the last point by one pixel.</Text>
             </View>
             <View style={styles.divider} />
-            <View style={styles.inputRow}>
-              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
-                <Ionicons name="resize-outline" size={20} color="#3c3c43" />
-                <Text style={styles.inputLabel}>Reference Length</Text>
+            {calibMode === 'court' && (
+              <View style={styles.inputRow}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                  <View style={[styles.edgeSwatch, { backgroundColor: WIDTH_EDGE_COLOR }]} />
+                  <Text style={styles.inputLabel}>Width</Text>
+                </View>
+                <View style={styles.inputWrapper}>
+                  <TextInput value={courtWidth} onChangeText={setCourtWidth} keyboardType="decimal-pad" style={styles.textInput} />
+                  <Text style={styles.unitText}>meters</Text>
+                </View>
               </View>
-              <View style={styles.inputWrapper}>
-                <TextInput value={referenceLength} onChangeText={setReferenceLength} keyboardType="decimal-pad" style={styles.textInput} />
-                <Text style={styles.unitText}>meters</Text>
+            )}
+            {calibMode === 'court' && (
+              <View style={styles.inputRow}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                  <View style={[styles.edgeSwatch, { backgroundColor: DEPTH_EDGE_COLOR }]} />
+                  <Text style={styles.inputLabel}>Depth</Text>
+                </View>
+                <View style={styles.inputWrapper}>
+                  <TextInput value={courtDepth} onChangeText={setCourtDepth} keyboardType="decimal-pad" style={styles.textInput} />
+                  <Text style={styles.unitText}>meters</Text>
+                </View>
               </View>
-            </View>
+            )}
+            {calibMode === 'line' && (
+              <CourtPresetPicker selectedId={presetId} onSelect={p => setPresetId(p ? p.id : CUSTOM_PRESET_ID)} />
+            )}
+            {calibMode === 'line' && (
+              <View style={styles.inputRow}>
+                <Text style={styles.inputLabel}>Depth Correction</Text>
+                <View style={styles.unitToggle}>
+                  {(['off', 'line', 'player'] as const).map(d => (
+                    <TouchableOpacity key={d} style={[styles.unitOption, depthMode === d && styles.unitOptionActive]} onPress={() => selectDepthMode(d)}>
+                      <Text style={[styles.unitOptionText, depthMode === d && styles.unitOptionTextActive]}>
+                        {d === 'off' ? 'Off' : d === 'line' ? '2nd Line' : 'Player'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+            {calibMode === 'line' && depthMode !== 'off' && (
+              <View style={styles.inputRow}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, flex: 1 }}>
+                  <View style={[styles.edgeSwatch, { backgroundColor: depthMode === 'player' ? PLAYER_COLOR : DEPTH_EDGE_COLOR }]} />
+                  <Text style={styles.depthHint}>
+                    {depthMode === 'player'
+                      ? 'Put the green line from the player\'s feet to the top of their head.'
+                      : 'Put the orange line on a second line nearer or further away.'}
+                  </Text>
+                </View>
+                <View style={styles.inputWrapper}>
+                  {depthMode === 'player' ? (
+                    <TextInput value={playerHeight} onChangeText={setPlayerHeight} keyboardType="decimal-pad" style={styles.textInput} />
+                  ) : (
+                    <TextInput value={secondLength} onChangeText={setSecondLength} keyboardType="decimal-pad" placeholder="0.00" style={styles.textInput} />
+                  )}
+                  <Text style={styles.unitText}>m</Text>
+                </View>
+              </View>
+            )}
+            {calibMode === 'line' && !preset && (
+              <View style={styles.inputRow}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                  <Ionicons name="resize-outline" size={20} color="#3c3c43" />
+                  <Text style={styles.inputLabel}>Reference Length</Text>
+                </View>
+                <View style={styles.inputWrapper}>
+                  <TextInput value={referenceLength} onChangeText={setReferenceLength} keyboardType="decimal-pad" placeholder="0.00" style={styles.textInput} />
+                  <View style={styles.unitToggle}>
+                    {(['m', 'ft'] as const).map(u => (
+                      <TouchableOpacity key={u} style={[styles.unitOption, lengthUnit === u && styles.unitOptionActive]} onPress={() => setLengthUnit(u)}>
+                        <Text style={[styles.unitOptionText, lengthUnit === u && styles.unitOptionTextActive]}>{u}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              </View>
+            )}
             <TouchableOpacity onPress={calculateAndProceed} style={styles.confirmButton}>
               <Text style={styles.confirmButtonText}>Start Analysis</Text>
             </TouchableOpacity>
@@ -272,6 +744,49 @@ export default function CalibrationScreen() {
           </TouchableOpacity>
         </View>
       </Modal>
+      <Modal visible={showProfiles} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setShowProfiles(false)}>
+        <View style={styles.profileSheet}>
+          <View style={styles.profileSheetHeader}>
+            <Text style={styles.profileSheetTitle}>Calibration Profiles</Text>
+            <TouchableOpacity onPress={() => setShowProfiles(false)}>
+              <Text style={styles.topBarButtonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView contentContainerStyle={{ gap: 10 }}>
+            {profiles.length === 0 && (
+              <Text style={styles.profileEmpty}>No saved profiles yet. Place the handles, then save them below to reuse them for clips filmed from the same spot.</Text>
+            )}
+            {profiles.map(p => {
+              const matches = sameResolution(p, videoPixelSize.current.width, videoPixelSize.current.height);
+              return (
+                <TouchableOpacity key={p.id} style={styles.profileItem} onPress={() => applyProfile(p)}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.profileName}>{p.name}</Text>
+                    <Text style={styles.profileMeta}>
+                      {p.mode === 'court' ? 'Court corners' : `${p.referenceLengthM.toFixed(2)} m line`} · {p.videoWidth}×{p.videoHeight}
+                      {matches ? '' : ' · different resolution'}
+                      {p.skipWhenMatching ? ' · skips calibration' : ''}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => removeProfile(p)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                    <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })}
+            <View style={styles.divider} />
+            <Text style={styles.inputLabel}>Save current handles</Text>
+            <TextInput value={profileName} onChangeText={setProfileName} placeholder="Profile name, e.g. Club court 3" style={styles.profileInput} />
+            <View style={styles.inputRow}>
+              <Text style={styles.profileSwitchLabel}>Skip calibration for {videoPixelSize.current.width}×{videoPixelSize.current.height} clips</Text>
+              <Switch value={skipWhenMatching} onValueChange={setSkipWhenMatching} />
+            </View>
+            <TouchableOpacity onPress={saveProfile} style={styles.confirmButton}>
+              <Text style={styles.confirmButtonText}>Save Profile</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
     </GestureHandlerRootView>
   );
 }
@@ -292,7 +807,47 @@ const styles = StyleSheet.create({
   topBarButton: { padding: 8, minWidth: 70, alignItems: 'center' },
   topBarButtonText: { color: '#007AFF', fontSize: 17 },
   topBarTitle: { fontSize: 17, fontWeight: '600' },
-  videoContainer: { flex: 1, backgroundColor: 'transparent' },
+  videoContainer: { flex: 1, backgroundColor: 'transparent', overflow: 'hidden' },
+  loupe: {
+    position: 'absolute',
+    top: 12,
+    width: LOUPE_SIZE,
+    height: LOUPE_SIZE,
+    borderRadius: LOUPE_SIZE / 2,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: '#FFF',
+    backgroundColor: '#000',
+  },
+  loupeContent: { position: 'absolute' },
+  loupeCrosshair: { position: 'absolute', backgroundColor: 'rgba(255, 59, 48, 0.9)' },
+  precisionBar: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  precisionText: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: '600',
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  nudgeButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+  },
   video: { ...StyleSheet.absoluteFillObject },
   handleContainer: {
     width: 80,
@@ -351,6 +906,43 @@ const styles = StyleSheet.create({
     fontSize: 17,
   },
   unitText: { fontSize: 17, color: '#3c3c43' },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(118, 118, 128, 0.12)',
+  },
+  profileRowText: { flex: 1, fontSize: 15, color: '#000' },
+  profileSheet: { flex: 1, padding: 20, backgroundColor: '#F2F2F7' },
+  profileSheetHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 },
+  profileSheetTitle: { fontSize: 20, fontWeight: '700' },
+  profileEmpty: { fontSize: 15, color: '#6D6D72', lineHeight: 20 },
+  profileItem: { flexDirection: 'row', alignItems: 'center', gap: 12, padding: 14, borderRadius: 12, backgroundColor: '#FFF' },
+  profileName: { fontSize: 17, fontWeight: '600' },
+  profileMeta: { fontSize: 13, color: '#6D6D72', marginTop: 2 },
+  profileInput: {
+    backgroundColor: '#FFF',
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    fontSize: 17,
+  },
+  profileSwitchLabel: { flex: 1, fontSize: 15, color: '#3c3c43', marginRight: 12 },
+  unitToggle: { flexDirection: 'row', backgroundColor: 'rgba(118, 118, 128, 0.12)', borderRadius: 8, padding: 2 },
+  unitOption: { paddingVertical: 6, paddingHorizontal: 10, borderRadius: 6 },
+  unitOptionActive: { backgroundColor: '#FFF' },
+  unitOptionText: { fontSize: 15, color: '#3c3c43' },
+  unitOptionTextActive: { color: '#000', fontWeight: '600' },
+  depthHint: { flex: 1, fontSize: 13, color: '#3c3c43', lineHeight: 17, marginRight: 8 },
+  edgeSwatch: { width: 20, height: 4, borderRadius: 2 },
+  modeControl: { flexDirection: 'row', backgroundColor: 'rgba(118, 118, 128, 0.12)', borderRadius: 9, padding: 2 },
+  modeSegment: { flex: 1, paddingVertical: 7, borderRadius: 7, alignItems: 'center' },
+  modeSegmentActive: { backgroundColor: '#FFF', shadowColor: '#000', shadowOpacity: 0.1, shadowRadius: 4, shadowOffset: { width: 0, height: 2 }, elevation: 2 },
+  modeSegmentText: { fontSize: 14, fontWeight: '500', color: '#3c3c43' },
+  modeSegmentTextActive: { color: '#000', fontWeight: '600' },
   confirmButton: {
     backgroundColor: '#007AFF',
     paddingVertical: 16,
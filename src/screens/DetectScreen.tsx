@@ -304,7 +304,7 @@ const RecordingGuideModalContent = ({ onClose }: RecordingGuideModalProps) => {
             </View>
             <View style={styles.rgRow}>
               <AppIcon name="film.stack" fallbackName="film" size={20} color="#007AFF" />
-              <Text style={styles.rgRowText}><Text style={styles.rgBold}>Frame Rate: </Text>30 FPS is fine; 60 FPS is better.</Text>
+              <Text style={styles.rgRowText}><Text style={styles.rgBold}>Frame Rate: </Text>30 FPS is fine; 60 FPS or Slo-Mo (120/240) is better.</Text>
             </View>
           </GlassPanel>
         </ScrollView>
@@ -21,12 +21,12 @@ const strings = {
     onboarding_slide1_title: "1. Record Your Smash",
     onboarding_slide1_instruction1: "Set the camera on the sideline, facing straight across. Court lines should look parallel to the frame.",
     onboarding_slide1_instruction2: "Keep the shuttle visible — avoid glare or busy backgrounds.",
-    onboarding_slide1_instruction3: "Use regular video. Avoid Slo-Mo or filters.",
+    onboarding_slide1_instruction3: "Slo-Mo and high frame rates improve accuracy. Avoid filters.",
     onboarding_slide1_instruction4: "Trim to just the smash — under 1 second (~10 frames).",
     onboarding_slide2_title: "2. Mark a Known Distance",
-    onboarding_slide2_instruction1: "Mark the front service line and doubles service line — 3.87 m apart.",
+    onboarding_slide2_instruction1: "Mark the front service line and doubles service line — 3.96 m apart.",
     onboarding_slide2_instruction2: "Place the line directly under the player.",
-    onboarding_slide2_instruction3: "Keep 3.87 m unless using different lines — changing it may reduce accuracy.",
+    onboarding_slide2_instruction3: "Keep 3.96 m unless using different lines — changing it may reduce accuracy.",
     onboarding_slide3_title: "3. Review Detection",
     onboarding_slide3_instruction1: "Use the slider or arrow keys to move through each frame and view the shuttle speed.",
     onboarding_slide3_instruction2: "Use the 'Interpolate' tool to automatically fill in gaps between good detections. This is highly recommended.",
@@ -51,7 +51,7 @@ const slides = [
         instructions: [
             { icon: 'swap-horizontal', iconSet: 'Ionicons', text: strings.onboarding_slide1_instruction1 },
             { icon: 'eye', iconSet: 'Ionicons', text: strings.onboarding_slide1_instruction2 },
-            { icon: 'videocam-off', iconSet: 'Ionicons', text: strings.onboarding_slide1_instruction3 },
+            { icon: 'videocam', iconSet: 'Ionicons', text: strings.onboarding_slide1_instruction3 },
             { icon: 'cut', iconSet: 'Ionicons', text: strings.onboarding_slide1_instruction4 }
         ]
     },
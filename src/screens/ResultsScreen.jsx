@@ -19,6 +19,9 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import { BlurView } from 'expo-blur';
 import { getFirestore, collection, query, orderBy, onSnapshot } from '@react-native-firebase/firestore';
 import { getAuth, onAuthStateChanged } from '@react-native-firebase/auth';
+import { formatShotAngle, SHOT_KIND_LABELS } from '../ml/angle';
+import { useSpeedUnit, formatSpeed, kphToUnit, SPEED_UNIT_LABELS } from '../ml/units';
+import { GRADE_COLORS } from '../ml/uncertainty';
 
 const { width: screenWidth } = Dimensions.get('window');
 const db = getFirestore();
@@ -44,7 +47,7 @@ const StatRow = ({ label, value }) => (
     </View>
 );
 
-const HistoryRow = ({ result, onPress }) => {
+const HistoryRow = ({ result, unit, onPress }) => {
     const formatDate = (timestamp) => {
         if (!timestamp?.toDate) return { date: 'Unknown', time: '' };
         const date = timestamp.toDate();
@@ -64,14 +67,19 @@ const HistoryRow = ({ result, onPress }) => {
                 <Text style={styles.historyDate}>{date}</Text>
                 <Text style={styles.historyTime}>{time}</Text>
             </View>
-            <Text style={styles.historySpeed}>{result.peakSpeedKph.toFixed(1)} km/h</Text>
+            <Text style={styles.historySpeed}>{formatSpeed(result.peakSpeedKph, unit)}</Text>
+            {!!result.accuracyGrade && (
+                <View style={[styles.gradeBadge, { backgroundColor: GRADE_COLORS[result.accuracyGrade] || '#8E8E93' }]}>
+                    <Text style={styles.gradeBadgeText}>{result.accuracyGrade}</Text>
+                </View>
+            )}
             <Icon name="chevron-right" size={22} color="#3C3C43" />
         </TouchableOpacity>
     );
 };
 
 // MARK: - Smash Details Modal
-const SmashDetailsModal = ({ result, onClose }) => {
+const SmashDetailsModal = ({ result, unit, onClose }) => {
     const [isLoading, setIsLoading] = useState(true);
     const [currentTime, setCurrentTime] = useState(0);
     const [currentFrame, setCurrentFrame] = useState(null);
@@ -125,17 +133,24 @@ const SmashDetailsModal = ({ result, onClose }) => {
         };
     };
 
-    const onScreenBox = currentFrame ? mapVideoToScreen(currentFrame.boundingBox) : null;
+    const onScreenBox = currentFrame && currentFrame.boundingBox ? mapVideoToScreen(currentFrame.boundingBox) : null;
     
     const timestampData = result.frameData && result.frameData.length > 0 
         ? result.frameData.map(f => ({
             time: `${f.timestamp.toFixed(2)} s`,
-            speed: `${f.speedKPH.toFixed(1)} km/h`
+            speed: f.frameState === 'ignore' ? 'Ignored' : formatSpeed(f.speedKPH, unit)
           }))
         : [ { time: "N/A", speed: "No frame data found" } ];
 
-    const liveSpeed = currentFrame ? `${currentFrame.speedKPH.toFixed(1)} km/h` : '-- km/h';
-    const smashAngle = result.angle != null ? `${result.angle.toFixed(0)}° downward` : '--';
+    const liveSpeed = formatSpeed(currentFrame ? currentFrame.speedKPH : null, unit);
+    const accuracy = result.accuracyGrade
+        ? `${result.accuracyGrade}${result.uncertaintyKph != null ? ` (± ${formatSpeed(result.uncertaintyKph, unit)})` : ''}`
+        : '--';
+    // Results saved before shot kinds were recorded only ever stored a downward angle.
+    const angleLabel = result.shotKind ? `${SHOT_KIND_LABELS[result.shotKind]} Angle` : 'Smash Angle';
+    const smashAngle = result.angle == null
+        ? '--'
+        : result.shotKind ? formatShotAngle(result.angle) : `${result.angle.toFixed(0)}° downward`;
 
     return (
         <Modal visible={!!result} animationType="slide" onRequestClose={onClose}>
@@ -171,16 +186,18 @@ const SmashDetailsModal = ({ result, onClose }) => {
                             {onScreenBox && (
                                 <View style={[styles.boundingBox, { top: onScreenBox.top, left: onScreenBox.left, width: onScreenBox.width, height: onScreenBox.height }]}>
                                     <View style={styles.speedTag}>
-                                      <Text style={styles.speedText}>{currentFrame.speedKPH.toFixed(0)} km/h</Text>
+                                      <Text style={styles.speedText}>{formatSpeed(currentFrame.speedKPH, unit, 0)}</Text>
                                     </View>
                                 </View>
                             )}
                         </View>
                         <GlassPanel style={styles.panel}>
                             <Text style={styles.sectionTitle}>Peak Speed</Text>
-                            <Text style={styles.peakSpeed}>{result.peakSpeedKph.toFixed(1)} km/h</Text>
+                            <Text style={styles.peakSpeed}>{formatSpeed(result.peakSpeedKph, unit)}</Text>
+                            <View style={styles.divider} />
+                            <StatRow label="Accuracy" value={accuracy} />
                             <View style={styles.divider} />
-                            <StatRow label="Smash Angle" value={smashAngle} />
+                            <StatRow label={angleLabel} value={smashAngle} />
                             <View style={styles.divider} />
                             <StatRow label="Live Speed" value={liveSpeed} />
                         </GlassPanel>
@@ -212,6 +229,7 @@ const ResultsScreen = () => {
   const [chartData, setChartData] = useState([]);
   const [selectedRange, setSelectedRange] = useState(TimeRange.WEEK);
   const [selectedResult, setSelectedResult] = useState(null);
+  const [speedUnit] = useSpeedUnit();
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
@@ -283,21 +301,21 @@ const ResultsScreen = () => {
           
           <GlassPanel style={styles.panel}>
             <Text style={styles.sectionTitle}>Filtered Stats</Text>
-            <StatRow label="Top Speed" value={`${filteredTopSpeed.toFixed(1)} km/h`} />
+            <StatRow label="Top Speed" value={formatSpeed(filteredTopSpeed, speedUnit)} />
             <View style={styles.divider} />
-            <StatRow label="Average Speed" value={`${filteredAverageSpeed.toFixed(1)} km/h`} />
+            <StatRow label="Average Speed" value={formatSpeed(filteredAverageSpeed, speedUnit)} />
             <View style={styles.divider} />
             <StatRow label="Total Smashes" value={filteredResults.length} />
           </GlassPanel>
 
           <GlassPanel style={styles.panel}>
             <Text style={styles.sectionTitle}>Progress Over Time</Text>
-            <Text style={styles.sectionSubtitle}>Top Speed per Day ({selectedRange.value})</Text>
+            <Text style={styles.sectionSubtitle}>Top Speed per Day ({selectedRange.value}, {SPEED_UNIT_LABELS[speedUnit]})</Text>
             {chartData.length > 1 ? (
                 <LineChart
                     data={{
                         labels: chartData.map(p => { const d = p.date; return `${d.getMonth() + 1}/${d.getDate()}`; }),
-                        datasets: [{ data: chartData.map(p => p.topSpeed) }]
+                        datasets: [{ data: chartData.map(p => kphToUnit(p.topSpeed, speedUnit)) }]
                     }}
                     width={screenWidth - 72}
                     height={220}
@@ -331,7 +349,7 @@ const ResultsScreen = () => {
             {filteredResults.length > 0 ? (
                 filteredResults.map((result, index) => (
                     <React.Fragment key={result.id}>
-                        <HistoryRow result={result} onPress={setSelectedResult} />
+                        <HistoryRow result={result} unit={speedUnit} onPress={setSelectedResult} />
                         {index < filteredResults.length - 1 && <View style={styles.divider} />}
                     </React.Fragment>
                 ))
@@ -341,7 +359,7 @@ const ResultsScreen = () => {
           </GlassPanel>
 
         </ScrollView>
-        <SmashDetailsModal result={selectedResult} onClose={() => setSelectedResult(null)} />
+        <SmashDetailsModal result={selectedResult} unit={speedUnit} onClose={() => setSelectedResult(null)} />
       </SafeAreaView>
     </ImageBackground>
   );
@@ -514,6 +532,20 @@ const styles = StyleSheet.create({
     color: '#000', 
     marginRight: 5 
   },
+  gradeBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+    marginRight: 5
+  },
+  gradeBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold'
+  },
   modalHeader: { 
     flexDirection: 'row', 
     alignItems: 'center', 
@@ -11,6 +11,7 @@ import {
   ImageBackground,
   useWindowDimensions,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Ionicons from 'react-native-vector-icons/Ionicons';
@@ -22,25 +23,100 @@ import { trim } from 'react-native-video-trim';
 import * as FileSystem from 'expo-file-system';
 import { BlurView } from 'expo-blur';
 import { captureRef } from 'react-native-view-shot';
+import { AccuracyGrade, GRADE_COLORS, GRADE_DESCRIPTIONS } from '../ml/uncertainty';
+import { formatShotAngle, SHOT_KIND_LABELS, ShotKind } from '../ml/angle';
+import { useSpeedUnit, formatSpeed, formatSpeedValue, nextSpeedUnit, SPEED_UNIT_LABELS } from '../ml/units';
 
 // Type Definitions
 type VBox = { x: number; y: number; width: number; height: number; };
 type FrameData = {
   timestamp: number;
-  speedKPH: number;
-  boundingBox: VBox;
+  speedKPH: number | null; // null on ignored frames
+  frameState?: 'use' | 'ignore' | 'interpolated';
+  rawSpeedKPH?: number | null;
+  filteredSpeedKPH?: number | null;
+  smoothedSpeedKPH?: number | null;
+  isContact?: boolean;
+  boundingBox: VBox | null; // null only on ignored frames without a box
 };
+type ShotResult = {
+  maxKph: number;
+  angle: number | null;
+  shotKind?: ShotKind | null;
+  estimatedInitialKph?: number | null;
+  uncertaintyKph?: number | null;
+  accuracyGrade?: AccuracyGrade | null;
+  startSec: number;
+  endSec: number;
+  frameData: FrameData[];
+  depthCorrection?: number | null;
+};
+type SaveStatus = 'idle' | 'trimming' | 'saving' | 'saved' | 'not_logged_in' | 'error';
 type SpeedResultParams = {
   maxKph: number;
-  angle?: number;
+  angle?: number | null; // degrees below the calibration horizon, negative above it
+  shotKind?: ShotKind | null;
+  peakSource?: 'fit' | 'raw' | 'filtered' | 'smoothed' | null; // what maxKph was taken from
+  frameSpeedMode?: 'raw' | 'filtered' | 'smoothed';             // the curve behind frameData speeds
+  estimatedInitialKph?: number | null;
+  uncertaintyKph?: number | null;
+  accuracyGrade?: AccuracyGrade | null;
+  shuttleType?: 'feather' | 'nylon';
   videoUri?: string;
   startSec?: number;
   endSec?: number;
   frameData?: FrameData[];
+  shots?: ShotResult[]; // rally mode: every shot can be saved as its own detection
+  calibrationPreset?: string; // how the scale was set, e.g. a court preset id or 'custom'
+  referenceLengthM?: number | null;
+  depthCorrection?: number | null; // metersPerPixel multiplier at the peak, 1 = none
 };
 
 const toFileUri = (p: string) => (p?.startsWith('file://') ? p : `file://${p}`);
 
+// 1.08 -> "+8%"; the speed scales with metersPerPixel, so this is the change in speed.
+const formatCorrection = (factor: number) => {
+  const pct = Math.round((factor - 1) * 100);
+  return `${pct > 0 ? '+' : ''}${pct}%`;
+};
+
+/**
+ * Trims [startSec, endSec] out of the source video, uploads it and stores the
+ * detection document with the given fields.
+ */
+async function uploadDetection(
+  uid: string,
+  videoUri: string,
+  startSec: number,
+  endSec: number,
+  fields: Record<string, unknown>,
+  onStatus: (status: SaveStatus) => void,
+) {
+  const db = getFirestore();
+  const storage = getStorage();
+  onStatus('trimming');
+
+  const trimmedPath = await trim(videoUri, {
+    startTime: startSec * 1000,
+    endTime: endSec * 1000,
+  });
+  const fileUri = toFileUri(trimmedPath);
+
+  onStatus('saving');
+  const filename = `${Date.now()}.mp4`;
+  const remotePath = `videos/${uid}/${filename}`;
+  const storageRef = ref(storage, remotePath);
+
+  await putFile(storageRef, fileUri, { contentType: 'video/mp4' });
+  const videoURL = await getDownloadURL(storageRef);
+
+  await FileSystem.deleteAsync(fileUri, { idempotent: true });
+
+  const detectionsRef = collection(db, 'users', uid, 'detections');
+  await addDoc(detectionsRef, { ...fields, date: serverTimestamp(), videoURL, userId: uid });
+  onStatus('saved');
+}
+
 const GlassPanel: React.FC<{ style?: any; children: React.ReactNode }> = ({
   style,
   children,
@@ -53,10 +129,16 @@ const GlassPanel: React.FC<{ style?: any; children: React.ReactNode }> = ({
 };
 
 export default function SpeedResultScreen({ route, navigation }: any) {
-  const { maxKph, angle, videoUri, startSec, endSec, frameData } = route.params as SpeedResultParams;
+  const { maxKph, angle, shotKind, peakSource, frameSpeedMode, estimatedInitialKph, uncertaintyKph, accuracyGrade, shuttleType, videoUri, startSec, endSec, frameData, shots, calibrationPreset, referenceLengthM, depthCorrection } = route.params as SpeedResultParams;
+  const isRally = !!shots;
   const hasAngle = typeof angle === 'number' && isFinite(angle);
+  const hasEstimate = typeof estimatedInitialKph === 'number' && isFinite(estimatedInitialKph);
+  const hasUncertainty = typeof uncertaintyKph === 'number' && isFinite(uncertaintyKph) && !!accuracyGrade;
+  const hasDepthCorrection = typeof depthCorrection === 'number' && isFinite(depthCorrection);
+  const angleLabel = shotKind ? `${SHOT_KIND_LABELS[shotKind]} Angle` : 'Shot Angle';
 
   const [displaySpeed, setDisplaySpeed] = useState(0);
+  const [speedUnit, setSpeedUnit] = useSpeedUnit();
   const [displayAngle, setDisplayAngle] = useState(0);
   const anim = useRef(new Animated.Value(0)).current;
   const animOnce = useRef(false);
@@ -70,12 +152,10 @@ export default function SpeedResultScreen({ route, navigation }: any) {
   const [isSharing, setIsSharing] = useState(false);
   const [showWatermark, setShowWatermark] = useState(false);
 
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'trimming' | 'saving' | 'saved' | 'not_logged_in' | 'error'>('idle');
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [shotStatus, setShotStatus] = useState<Record<number, SaveStatus>>({});
 
-  // Initialize Firebase services
-  const db = getFirestore();
-  const storage = getStorage();
   const auth = getAuth();
 
   useEffect(() => {
@@ -109,45 +189,28 @@ export default function SpeedResultScreen({ route, navigation }: any) {
 
       if (!videoUri || startSec === undefined || endSec === undefined) return;
 
-      setSaveStatus('trimming');
-      
       try {
-        const { uid } = user;
-        const timestamp = Date.now();
-
-        const trimmedPath = await trim(videoUri, {
-          startTime: startSec * 1000,
-          endTime: endSec * 1000,
-        });
-
-        const fileUri = toFileUri(trimmedPath);
-
-        setSaveStatus('saving');
-        setUploadProgress(0);
-
-        const filename = `${timestamp}.mp4`;
-        const remotePath = `videos/${uid}/${filename}`;
-        const storageRef = ref(storage, remotePath);
-
-        await putFile(storageRef, fileUri, { contentType: 'video/mp4' });
-        const videoURL = await getDownloadURL(storageRef);
-
-        await FileSystem.deleteAsync(fileUri, { idempotent: true });
-
         const detectionData = {
           angle: hasAngle ? Math.round(angle as number) : null,
-          date: serverTimestamp(),
+          shotKind: hasAngle ? shotKind ?? null : null,
           peakSpeedKph: Math.round(maxKph),
-          videoURL,
-          userId: uid,
+          peakSource: peakSource ?? null,
+          frameSpeedMode: frameSpeedMode ?? null,
+          estimatedInitialKph: hasEstimate ? Math.round(estimatedInitialKph as number) : null,
+          uncertaintyKph: hasUncertainty ? Math.round((uncertaintyKph as number) * 10) / 10 : null,
+          accuracyGrade: hasUncertainty ? accuracyGrade : null,
+          shuttleType: shuttleType ?? null,
+          calibrationPreset: calibrationPreset ?? null,
+          referenceLengthM: referenceLengthM ?? null,
+          depthCorrection: hasDepthCorrection ? Math.round((depthCorrection as number) * 1000) / 1000 : null,
           frameData: frameData || [],
         };
 
-        const detectionsRef = collection(db, 'users', uid, 'detections');
-        await addDoc(detectionsRef, detectionData);
-        
-        setSaveStatus('saved');
-        setUploadProgress(100);
+        await uploadDetection(user.uid, videoUri, startSec, endSec, detectionData, status => {
+          setSaveStatus(status);
+          if (status === 'saving') setUploadProgress(0);
+          if (status === 'saved') setUploadProgress(100);
+        });
       } catch (error) {
         console.error('Failed to save result:', error);
         setSaveStatus('error');
@@ -158,14 +221,56 @@ export default function SpeedResultScreen({ route, navigation }: any) {
       }
     };
 
+    // Rally results are saved shot by shot from the list instead.
+    if (isRally) {
+      if (!auth.currentUser) setSaveStatus('not_logged_in');
+      return;
+    }
+
     if (videoUri && startSec !== undefined && endSec !== undefined) {
       saveResult();
     } else if (!auth.currentUser) {
       setSaveStatus('not_logged_in');
     }
-  }, [maxKph, angle, hasAngle, videoUri, startSec, endSec, frameData, db, storage, auth]);
+  }, [maxKph, angle, shotKind, hasAngle, peakSource, frameSpeedMode, estimatedInitialKph, hasEstimate, uncertaintyKph, accuracyGrade, hasUncertainty, shuttleType, calibrationPreset, referenceLengthM, depthCorrection, hasDepthCorrection, videoUri, startSec, endSec, frameData, isRally, auth]);
+
+  const saveShot = async (idx: number) => {
+    const shot = shots?.[idx];
+    const user = auth.currentUser;
+    if (!shot || !videoUri) return;
+    if (!user) {
+      navigateToLogin();
+      return;
+    }
+    const shotHasEstimate = typeof shot.estimatedInitialKph === 'number' && isFinite(shot.estimatedInitialKph);
+    const shotHasUncertainty = typeof shot.uncertaintyKph === 'number' && isFinite(shot.uncertaintyKph) && !!shot.accuracyGrade;
+    try {
+      const detectionData = {
+        angle: shot.angle != null && Number.isFinite(shot.angle) ? Math.round(shot.angle) : null,
+        shotKind: shot.angle != null ? shot.shotKind ?? null : null,
+        peakSpeedKph: Math.round(shot.maxKph),
+        peakSource: peakSource ?? null,
+        frameSpeedMode: frameSpeedMode ?? null,
+        estimatedInitialKph: shotHasEstimate ? Math.round(shot.estimatedInitialKph as number) : null,
+        uncertaintyKph: shotHasUncertainty ? Math.round((shot.uncertaintyKph as number) * 10) / 10 : null,
+        accuracyGrade: shotHasUncertainty ? shot.accuracyGrade : null,
+        shuttleType: shuttleType ?? null,
+        calibrationPreset: calibrationPreset ?? null,
+        referenceLengthM: referenceLengthM ?? null,
+        depthCorrection: shot.depthCorrection != null ? Math.round(shot.depthCorrection * 1000) / 1000 : null,
+        rallyShot: idx + 1,
+        frameData: shot.frameData || [],
+      };
+      await uploadDetection(user.uid, videoUri, shot.startSec, shot.endSec, detectionData, status =>
+        setShotStatus(prev => ({ ...prev, [idx]: status })));
+    } catch (error) {
+      console.error('Failed to save shot:', error);
+      setShotStatus(prev => ({ ...prev, [idx]: 'error' }));
+      Alert.alert('Upload Failed', 'An error occurred while saving this shot.');
+    }
+  };
 
-  const speedStr = useMemo(() => displaySpeed.toFixed(1), [displaySpeed]);
+  const speedStr = useMemo(() => formatSpeedValue(displaySpeed, speedUnit), [displaySpeed, speedUnit]);
 
   const goAnalyzeAnother = () => {
     navigation.popToTop?.();
@@ -236,18 +341,46 @@ export default function SpeedResultScreen({ route, navigation }: any) {
           <View ref={shareCardRef} collapsable={false}>
             <GlassPanel style={[styles.card, { width: CARD_W }]}>
               <View style={styles.cardContent}>
-                <Text style={styles.cardSubtitle}>Max Speed</Text>
+                <Text style={styles.cardSubtitle}>{isRally ? 'Fastest Shot' : 'Max Speed'}</Text>
                 <Text style={[styles.speedNumber, { fontSize: NUM_FS, lineHeight: NUM_FS * 1.06 }]}>{speedStr}</Text>
-                <Text style={[styles.speedUnit, { fontSize: UNIT_FS }]}>km/h</Text>
+                <TouchableOpacity onPress={() => setSpeedUnit(nextSpeedUnit(speedUnit))}>
+                  <Text style={[styles.speedUnit, { fontSize: UNIT_FS }]}>{SPEED_UNIT_LABELS[speedUnit]}</Text>
+                </TouchableOpacity>
+                {hasUncertainty && (
+                  <Text style={styles.uncertaintyText}>± {formatSpeed(uncertaintyKph, speedUnit)}</Text>
+                )}
                 <View style={styles.divider} />
+                <View style={styles.angleRow}>
+                  <Text style={styles.angleLabel}>Accuracy</Text>
+                  {hasUncertainty ? (
+                    <View style={styles.gradeValue}>
+                      <Text style={styles.gradeDescription}>{GRADE_DESCRIPTIONS[accuracyGrade as AccuracyGrade]}</Text>
+                      <View style={[styles.gradeBadge, { backgroundColor: GRADE_COLORS[accuracyGrade as AccuracyGrade] }]}>
+                        <Text style={styles.gradeBadgeText}>{accuracyGrade}</Text>
+                      </View>
+                    </View>
+                  ) : (
+                    <Text style={styles.angleValue}>--</Text>
+                  )}
+                </View>
+                {hasDepthCorrection && (
+                  <View style={styles.angleRow}>
+                    <Text style={styles.angleLabel}>Depth Correction</Text>
+                    <Text style={styles.angleValue}>{formatCorrection(depthCorrection as number)}</Text>
+                  </View>
+                )}
+                <View style={styles.angleRow}>
+                  <Text style={styles.angleLabel}>Est. Initial Speed</Text>
+                  <Text style={styles.angleValue}>{hasEstimate ? formatSpeed(estimatedInitialKph, speedUnit) : '--'}</Text>
+                </View>
                 {hasAngle ? (
                   <View style={styles.angleRow}>
-                    <Text style={styles.angleLabel}>Smash Angle</Text>
-                    <Text style={styles.angleValue}>{Math.round(displayAngle)}°</Text>
+                    <Text style={styles.angleLabel}>{angleLabel}</Text>
+                    <Text style={styles.angleValue}>{formatShotAngle(displayAngle)}</Text>
                   </View>
                 ) : (
                   <View style={styles.angleRow}>
-                    <Text style={styles.angleLabel}>Smash Angle</Text>
+                    <Text style={styles.angleLabel}>{angleLabel}</Text>
                     <Text style={styles.angleValue}>--°</Text>
                   </View>
                 )}
@@ -256,6 +389,38 @@ export default function SpeedResultScreen({ route, navigation }: any) {
               {showWatermark && <Text style={styles.watermark}>@smashspeed</Text>}
             </GlassPanel>
           </View>
+
+          {isRally && (
+            <GlassPanel style={[styles.card, styles.shotsCard, { width: CARD_W }]}>
+              <ScrollView style={styles.shotsScroll} contentContainerStyle={styles.shotsContent}>
+                <Text style={styles.shotsTitle}>{shots!.length} Shot{shots!.length === 1 ? '' : 's'}</Text>
+                {shots!.map((shot, i) => {
+                  const status = shotStatus[i] ?? 'idle';
+                  const busy = status === 'trimming' || status === 'saving';
+                  return (
+                    <View key={`${shot.startSec}`} style={styles.shotRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.shotName}>Shot {i + 1}</Text>
+                        <Text style={styles.shotMeta}>{shot.startSec.toFixed(2)}s – {shot.endSec.toFixed(2)}s{shot.angle != null ? ` · ${shot.shotKind ? `${SHOT_KIND_LABELS[shot.shotKind]} ` : ''}${formatShotAngle(shot.angle)}` : ''}</Text>
+                      </View>
+                      <Text style={styles.shotSpeed}>{formatSpeed(shot.maxKph, speedUnit)}</Text>
+                      <TouchableOpacity onPress={() => saveShot(i)} disabled={busy || status === 'saved'} style={styles.shotSaveBtn}>
+                        {busy ? (
+                          <ActivityIndicator size="small" color="#007AFF" />
+                        ) : (
+                          <Ionicons
+                            name={status === 'saved' ? 'checkmark-circle' : status === 'error' ? 'alert-circle' : 'cloud-upload-outline'}
+                            size={22}
+                            color="#007AFF"
+                          />
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })}
+              </ScrollView>
+            </GlassPanel>
+          )}
         </View>
 
         <View style={styles.footer}>
@@ -293,6 +458,20 @@ const styles = StyleSheet.create({
   angleRow: { flexDirection: 'row', alignSelf: 'stretch', alignItems: 'center', paddingHorizontal: 6, marginTop: 2 },
   angleLabel: { fontSize: 16, color: '#6B7280', fontWeight: '600' },
   angleValue: { marginLeft: 'auto', fontSize: 18, fontWeight: '700', color: '#111827' },
+  uncertaintyText: { marginTop: 4, fontSize: 15, fontWeight: '600', color: '#6B7280' },
+  gradeValue: { marginLeft: 'auto', flexDirection: 'row', alignItems: 'center' },
+  gradeDescription: { fontSize: 14, color: '#6B7280', marginRight: 8 },
+  gradeBadge: { minWidth: 26, height: 26, borderRadius: 13, alignItems: 'center', justifyContent: 'center', paddingHorizontal: 6 },
+  gradeBadgeText: { color: '#FFFFFF', fontWeight: '800', fontSize: 14 },
+  shotsCard: { marginTop: 16 },
+  shotsScroll: { maxHeight: 260 },
+  shotsContent: { paddingVertical: 16, paddingHorizontal: 18 },
+  shotsTitle: { fontSize: 16, color: '#6B7280', fontWeight: '600', marginBottom: 8 },
+  shotRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 8, borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: '#E5E7EB' },
+  shotName: { fontSize: 15, fontWeight: '700', color: '#111827' },
+  shotMeta: { fontSize: 12, color: '#6B7280', marginTop: 2 },
+  shotSpeed: { fontSize: 16, fontWeight: '700', color: '#007AFF', marginHorizontal: 10 },
+  shotSaveBtn: { width: 36, height: 36, alignItems: 'center', justifyContent: 'center' },
   statusWrapper: { marginTop: 18 },
   statusContainer: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 12, backgroundColor: 'rgba(0, 122, 255, 0.1)' },
   statusText: { marginLeft: 6, fontSize: 12, fontWeight: '500', color: '#007AFF' },
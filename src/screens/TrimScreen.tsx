@@ -25,6 +25,10 @@ import Animated, {
   useAnimatedReaction,
   runOnJS,
 } from 'react-native-reanimated';
+import { startDetectionSession, DetectionSession, DetectionProgress } from '../ml/session';
+import { findSmashCandidates, SmashCandidate } from '../ml/autoTrim';
+import { getClassNames, shuttleClassIds } from '../ml/yolo';
+import type { FrameDetections } from '../ml/yolo';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const TRIMMER_PADDING = 30;
@@ -32,6 +36,11 @@ const TRACK_WIDTH = SCREEN_WIDTH - 2 * TRIMMER_PADDING;
 const HANDLE_WIDTH = 30;
 const SEEK_THROTTLE_MS = 80;
 const LOOP_EPS = 0.05;
+// Longest selection per mode: one smash, or a whole rally.
+const MAX_SMASH_SEC = 0.7;
+const MAX_RALLY_SEC = 30;
+// Coarse pass used by "Auto-find smash"; enough to see a fast shuttle move.
+const AUTO_FIND_FPS = 15;
 
 const wClamp = (v: number, min: number, max: number) => {
   'worklet';
@@ -40,7 +49,7 @@ const wClamp = (v: number, min: number, max: number) => {
 
 type RootStackParamList = {
   Trim: { sourceUri: string; duration: number };
-  Calibration: { sourceUri: string; duration: number; startSec: number; endSec: number };
+  Calibration: { sourceUri: string; duration: number; startSec: number; endSec: number; mode?: 'single' | 'rally' };
 };
 type TrimRoute = RouteProp<RootStackParamList, 'Trim'>;
 type VideoHandle = React.ElementRef<typeof Video>;
@@ -65,6 +74,7 @@ const TrimScreen: React.FC = () => {
     Number.isFinite(durationParam) && durationParam > 0 ? durationParam : 0
   );
   const [isExporting, setIsExporting] = React.useState(false);
+  const [mode, setMode] = React.useState<'single' | 'rally'>('single');
   // Change: Start video in a paused state.
   const [paused, setPaused] = React.useState(true);
   const [renderVideo, setRenderVideo] = React.useState(true);
@@ -78,6 +88,15 @@ const TrimScreen: React.FC = () => {
   const [startSec, setStartSec] = React.useState(0);
   const [endSec, setEndSec] = React.useState(0);
 
+  // Auto-find smash
+  const scanRef = React.useRef<DetectionSession | null>(null);
+  const [isScanning, setIsScanning] = React.useState(false);
+  const [scanProgress, setScanProgress] = React.useState<DetectionProgress>({ decoded: 0, expected: null });
+  const [candidates, setCandidates] = React.useState<SmashCandidate[]>([]);
+  const [selectedCandidate, setSelectedCandidate] = React.useState<number | null>(null);
+
+  React.useEffect(() => () => scanRef.current?.cancel(), []);
+
   // Initialize endSec when videoDuration changes
   React.useEffect(() => {
     if (videoDuration > 0) {
@@ -195,6 +214,52 @@ const TrimScreen: React.FC = () => {
     setPaused(p => !p);
   }, []);
 
+  const selectCandidate = React.useCallback((idx: number, list: SmashCandidate[]) => {
+    const c = list[idx];
+    if (!c || videoDuration <= 0) return;
+    setSelectedCandidate(idx);
+    setPaused(true);
+    leftHandleX.value = withSpring((c.startSec / videoDuration) * TRACK_WIDTH);
+    rightHandleX.value = withSpring((c.endSec / videoDuration) * TRACK_WIDTH);
+    videoRef.current?.seek(c.startSec);
+  }, [videoDuration]);
+
+  const autoFindSmash = React.useCallback(() => {
+    if (isScanning || !sourceUri || videoDuration <= 0) return;
+    setPaused(true);
+    setIsScanning(true);
+    setCandidates([]);
+    setSelectedCandidate(null);
+    setScanProgress({ decoded: 0, expected: null });
+
+    const frames: FrameDetections[] = [];
+    scanRef.current = startDetectionSession(sourceUri, 0, videoDuration, { fps: AUTO_FIND_FPS }, {
+      onFrame: frame => frames.push(frame),
+      onFrames: cached => frames.push(...cached),
+      onProgress: setScanProgress,
+      onComplete: async () => {
+        // Rackets and players move fast too; only shuttle boxes can make a candidate.
+        const classIds = await getClassNames().then(shuttleClassIds, () => undefined);
+        setIsScanning(false);
+        const found = findSmashCandidates(frames, { durationSec: videoDuration, classIds });
+        setCandidates(found);
+        if (found.length) selectCandidate(0, found);
+        else Alert.alert('No Smash Found', 'Could not find a fast shuttle in this video. Please trim it by hand.');
+      },
+      onError: e => {
+        console.warn('Auto-find failed', e);
+        setIsScanning(false);
+        Alert.alert('Auto-find Failed', e.message || 'Something went wrong while scanning the video.');
+      },
+    });
+  }, [isScanning, sourceUri, videoDuration, selectCandidate]);
+
+  const cancelAutoFind = React.useCallback(() => {
+    scanRef.current?.cancel();
+    scanRef.current = null;
+    setIsScanning(false);
+  }, []);
+
   const onConfirm = React.useCallback(() => {
     const selectedDuration = endSec - startSec;
     
@@ -203,10 +268,18 @@ const TrimScreen: React.FC = () => {
       return;
     }
     
-    if (selectedDuration > 0.7) {
+    if (mode === 'single' && selectedDuration > MAX_SMASH_SEC) {
       Alert.alert(
         "Clip Too Long",
-        `Your selection is ${selectedDuration.toFixed(2)}s. Please select a clip shorter than 0.7s for the best results.`
+        `Your selection is ${selectedDuration.toFixed(2)}s. Please select a clip shorter than ${MAX_SMASH_SEC}s for the best results, or switch to Rally mode.`
+      );
+      return;
+    }
+
+    if (mode === 'rally' && selectedDuration > MAX_RALLY_SEC) {
+      Alert.alert(
+        "Clip Too Long",
+        `Your selection is ${selectedDuration.toFixed(2)}s. Rally mode analyzes up to ${MAX_RALLY_SEC}s at a time.`
       );
       return;
     }
@@ -220,11 +293,12 @@ const TrimScreen: React.FC = () => {
         sourceUri,
         duration: videoDuration,
         startSec,
-        endSec
+        endSec,
+        mode,
       });
       setIsExporting(false);
     }, 500);
-  }, [navigation, sourceUri, videoDuration, startSec, endSec]);
+  }, [navigation, sourceUri, videoDuration, startSec, endSec, mode]);
 
   const onCancel = React.useCallback(() => {
     navigation.goBack();
@@ -248,11 +322,20 @@ const TrimScreen: React.FC = () => {
 
           <ScrollView contentContainerStyle={styles.scrollContent}>
             <View style={styles.header}>
-              <Text style={styles.title}>Trim to the Smash</Text>
+              <Text style={styles.title}>{mode === 'rally' ? 'Trim to the Rally' : 'Trim to the Smash'}</Text>
               <Text style={styles.description}>
-                Isolate the moment of impact. The final clip should be very short (~0.25 seconds), 
-                and the birdie should be clearly visible in each frame.
+                {mode === 'rally'
+                  ? `Select the whole rally (up to ${MAX_RALLY_SEC} seconds). Every shot is found and measured separately.`
+                  : 'Isolate the moment of impact. The final clip should be very short (~0.25 seconds), and the birdie should be clearly visible in each frame.'}
               </Text>
+              <View style={styles.modeControl}>
+                <TouchableOpacity style={[styles.modeSegment, mode === 'single' && styles.modeSegmentActive]} onPress={() => setMode('single')}>
+                  <Text style={[styles.modeText, mode === 'single' && styles.modeTextActive]}>Single Smash</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.modeSegment, mode === 'rally' && styles.modeSegmentActive]} onPress={() => setMode('rally')}>
+                  <Text style={[styles.modeText, mode === 'rally' && styles.modeTextActive]}>Rally</Text>
+                </TouchableOpacity>
+              </View>
             </View>
 
             {/* Change: Added a play/pause button overlay. */}
@@ -307,6 +390,41 @@ const TrimScreen: React.FC = () => {
                 <Text style={styles.timeLabel}>{formatTime(endSec)}</Text>
               </View>
             </View>
+
+            {mode === 'single' && (
+            <View style={styles.autoFindContainer}>
+              {isScanning ? (
+                <View style={styles.autoFindRow}>
+                  <ActivityIndicator size="small" color="#007AFF" />
+                  <Text style={styles.autoFindText}>
+                    Scanning video... {scanProgress.expected ? `${scanProgress.decoded} / ${scanProgress.expected}` : scanProgress.decoded} frames
+                  </Text>
+                  <TouchableOpacity onPress={cancelAutoFind}>
+                    <Text style={styles.autoFindCancel}>Cancel</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <TouchableOpacity onPress={autoFindSmash} style={styles.autoFindButton} disabled={videoDuration <= 0}>
+                  <Text style={styles.autoFindButtonText}>✨ Auto-find smash</Text>
+                </TouchableOpacity>
+              )}
+              {candidates.length > 1 && !isScanning && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                  {candidates.map((c, i) => (
+                    <TouchableOpacity
+                      key={`${c.peakSec}`}
+                      onPress={() => selectCandidate(i, candidates)}
+                      style={[styles.chip, selectedCandidate === i && styles.chipActive]}
+                    >
+                      <Text style={[styles.chipText, selectedCandidate === i && styles.chipTextActive]}>
+                        {i === 0 ? 'Best · ' : ''}{formatTime(c.peakSec)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              )}
+            </View>
+            )}
             
             <View style={styles.spacer} />
 
@@ -444,6 +562,80 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontWeight: 'bold',
   },
+  modeControl: {
+    flexDirection: 'row',
+    marginTop: 14,
+    backgroundColor: '#e5e5ea',
+    borderRadius: 9,
+    padding: 2,
+  },
+  modeSegment: {
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+    borderRadius: 7,
+  },
+  modeSegmentActive: {
+    backgroundColor: '#fff',
+  },
+  modeText: {
+    color: '#3c3c43',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  modeTextActive: {
+    color: '#007AFF',
+  },
+  autoFindContainer: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  autoFindButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+  },
+  autoFindButtonText: {
+    color: '#007AFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  autoFindRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  autoFindText: {
+    color: '#3c3c43',
+    fontSize: 14,
+  },
+  autoFindCancel: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipRow: {
+    gap: 8,
+    paddingTop: 12,
+    paddingHorizontal: 4,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    backgroundColor: '#e5e5ea',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    color: '#3c3c43',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
   spacer: {
     flex: 1,
     minHeight: 20,